@@ -0,0 +1,63 @@
+/**
+ * # Benchmark
+ *
+ * Measures how many equations per second the library parses and converts
+ * to MathML. The equations are read from `corpus.txt`, which contains
+ * typical equations found in documentation sites. Build the library to the
+ * `lib` folder before running the benchmark with `npm run bench`.
+ *
+ * To see the effect of a change, give the path of another build as an
+ * argument. Both builds are measured and the speedup is printed:
+ *
+ * ```
+ * npm run bench -- ../baseline/lib/index.js
+ * ```
+ */
+const fs = require("fs")
+const path = require("path")
+
+const corpus = fs.readFileSync(path.join(__dirname, "corpus.txt"), "utf8")
+    .split(/\r?\n/).filter(line => line.trim())
+const rounds = 200
+/**
+ * Each measurement runs a warm-up round first, so that the JIT compiler has
+ * optimized the code before the clock starts.
+ */
+function measure(fn) {
+    for (let eq of corpus)
+        fn(eq)
+    let start = process.hrtime.bigint()
+    for (let i = 0; i < rounds; ++i)
+        for (let eq of corpus)
+            fn(eq)
+    let secs = Number(process.hrtime.bigint() - start) / 1e9
+    return corpus.length * rounds / secs
+}
+
+/**
+ * Older builds don't export `parseAsciiMath`. For them, only the conversion
+ * to MathML is measured.
+ */
+function run(lib) {
+    return {
+        parse: lib.parseAsciiMath && measure(eq => lib.parseAsciiMath(eq)),
+        mathml: measure(eq => lib.asciiToMathML(eq))
+    }
+}
+
+function print(name, res) {
+    console.log(`${name}: ` + (res.parse ?
+        `parse ${Math.round(res.parse)} eq/s, ` : "") +
+        `MathML ${Math.round(res.mathml)} eq/s`)
+}
+
+let current = run(require(path.join(__dirname, "..", "lib", "index.js")))
+print("current", current)
+let other = process.argv[2]
+if (other) {
+    let baseline = run(require(path.resolve(other)))
+    print("baseline", baseline)
+    console.log("speedup: " + (baseline.parse ?
+        `parse ${(current.parse / baseline.parse).toFixed(2)}x, ` : "") +
+        `MathML ${(current.mathml / baseline.mathml).toFixed(2)}x`)
+}
@@ -0,0 +1,92 @@
+/**
+ * # Character Tables
+ * 
+ * To output a variable in a special font, we need to map its character codes 
+ * to another unicode range. This way can use blackboard (double bold), 
+ * calligraphic, or fraktur fonts. The type for the character mapping table is
+ * defined below.
+ */
+import { Font } from "."
+
+export type CharTable = string[]
+/**
+ * The available character tables are defined next. Here are some samples of
+ * what character sets are available. 
+ * 
+ * - Blackboard command `bbb"AaBbCc"` yields: 
+ *   <math display="inline"><mstyle displaystyle="true"><mtext>𝔸𝕒𝔹𝕓ℂ𝕔</mtext></mstyle></math>
+ * - Calligraphic command `cc"AaBbCc"` yields: 
+ *   <math display="inline"><mstyle displaystyle="true"><mtext>𝒜𝒶ℬ𝒷𝒞𝒸</mtext></mstyle></math>
+ * - Fraktur command `fr"AaBbCc"` yields: 
+ *   <math display="inline"><mstyle displaystyle="true"><mtext>𝔄𝔞𝔅𝔟ℭ𝔠</mtext></mstyle></math>
+ * 
+ * The tables contain just upper and lower case latin alphabets. No other 
+ * characters are transformed. The first one is for calligraphic characters.
+ */
+export const calTable = ["\uD835\uDC9C", "\u212C", "\uD835\uDC9E", "\uD835\uDC9F", "\u2130", 
+    "\u2131", "\uD835\uDCA2", "\u210B", "\u2110", "\uD835\uDCA5", "\uD835\uDCA6", 
+    "\u2112", "\u2133", "\uD835\uDCA9", "\uD835\uDCAA", "\uD835\uDCAB", 
+    "\uD835\uDCAC", "\u211B", "\uD835\uDCAE", "\uD835\uDCAF", "\uD835\uDCB0", 
+    "\uD835\uDCB1", "\uD835\uDCB2", "\uD835\uDCB3", "\uD835\uDCB4", 
+    "\uD835\uDCB5", "\uD835\uDCB6", "\uD835\uDCB7", "\uD835\uDCB8", 
+    "\uD835\uDCB9", "\u212F", "\uD835\uDCBB", "\u210A", "\uD835\uDCBD", 
+    "\uD835\uDCBE", "\uD835\uDCBF", "\uD835\uDCC0", "\uD835\uDCC1", 
+    "\uD835\uDCC2", "\uD835\uDCC3", "\u2134", "\uD835\uDCC5", "\uD835\uDCC6", 
+    "\uD835\uDCC7", "\uD835\uDCC8", "\uD835\uDCC9", "\uD835\uDCCA", 
+    "\uD835\uDCCB", "\uD835\uDCCC", "\uD835\uDCCD", "\uD835\uDCCE", 
+    "\uD835\uDCCF"]
+/**
+ * This contains fraktur characters.
+ */
+export const frkTable = ["\uD835\uDD04", "\uD835\uDD05", "\u212D", "\uD835\uDD07", 
+    "\uD835\uDD08", "\uD835\uDD09", "\uD835\uDD0A", "\u210C", "\u2111", 
+    "\uD835\uDD0D", "\uD835\uDD0E", "\uD835\uDD0F", "\uD835\uDD10", 
+    "\uD835\uDD11", "\uD835\uDD12", "\uD835\uDD13", "\uD835\uDD14", "\u211C", 
+    "\uD835\uDD16", "\uD835\uDD17", "\uD835\uDD18", "\uD835\uDD19", 
+    "\uD835\uDD1A", "\uD835\uDD1B", "\uD835\uDD1C", "\u2128", "\uD835\uDD1E", 
+    "\uD835\uDD1F", "\uD835\uDD20", "\uD835\uDD21", "\uD835\uDD22", 
+    "\uD835\uDD23", "\uD835\uDD24", "\uD835\uDD25", "\uD835\uDD26", 
+    "\uD835\uDD27", "\uD835\uDD28", "\uD835\uDD29", "\uD835\uDD2A", 
+    "\uD835\uDD2B", "\uD835\uDD2C", "\uD835\uDD2D", "\uD835\uDD2E", 
+    "\uD835\uDD2F", "\uD835\uDD30", "\uD835\uDD31", "\uD835\uDD32", 
+    "\uD835\uDD33", "\uD835\uDD34", "\uD835\uDD35", "\uD835\uDD36", 
+    "\uD835\uDD37"];
+/**
+ * And finally the blackboard characters.
+ */
+export const bbbTable = ["\uD835\uDD38", "\uD835\uDD39", "\u2102", "\uD835\uDD3B", 
+    "\uD835\uDD3C", "\uD835\uDD3D", "\uD835\uDD3E", "\u210D", "\uD835\uDD40", 
+    "\uD835\uDD41", "\uD835\uDD42", "\uD835\uDD43", "\uD835\uDD44", "\u2115", 
+    "\uD835\uDD46", "\u2119", "\u211A", "\u211D", "\uD835\uDD4A", "\uD835\uDD4B", 
+    "\uD835\uDD4C", "\uD835\uDD4D", "\uD835\uDD4E", "\uD835\uDD4F", 
+    "\uD835\uDD50", "\u2124", "\uD835\uDD52", "\uD835\uDD53", "\uD835\uDD54", 
+    "\uD835\uDD55", "\uD835\uDD56", "\uD835\uDD57", "\uD835\uDD58", 
+    "\uD835\uDD59", "\uD835\uDD5A", "\uD835\uDD5B", "\uD835\uDD5C", 
+    "\uD835\uDD5D", "\uD835\uDD5E", "\uD835\uDD5F", "\uD835\uDD60", 
+    "\uD835\uDD61", "\uD835\uDD62", "\uD835\uDD63", "\uD835\uDD64", 
+    "\uD835\uDD65", "\uD835\uDD66", "\uD835\uDD67", "\uD835\uDD68", 
+    "\uD835\uDD69", "\uD835\uDD6A", "\uD835\uDD6B"];
+/**
+ * Now we can define a function that converts a string using a specified
+ * character table. If none is given, we return the same text back.
+ */
+export function convertText(text: string, table?: CharTable): string {
+    if (!table)
+        return text
+    let res = ""
+    for (let i = 0; i < text.length; ++i) {
+        let ch = text.charCodeAt(i)
+        res += ch >= 65 && ch < 91 ? table[ch-65] : 
+            ch >= 97 && ch < 123 ? table[ch-71] : 
+            text[i]
+    }
+    return res
+}
+/**
+ * The fonts that have a character table are listed below.
+ */
+export const fontTables: { [font in Font]?: CharTable } = {
+    "double-struck": bbbTable,
+    "script": calTable,
+    "fraktur": frkTable
+}
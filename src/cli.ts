@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+/**
+ * # Command-Line Interface
+ *
+ * The `asciimath2ml` command converts equations to MathML in shell scripts.
+ * Equations are given as arguments, read from files, or read from the
+ * standard input. The MathML is written to the standard output, one equation
+ * per line.
+ *
+ * ```
+ * asciimath2ml --inline "x^2 + y^2"
+ * asciimath2ml --batch --file equations.txt > equations.html
+ * ```
+ *
+ * The exit code is 1, if some equation contains errors, that is, if the
+ * output contains an `<merror>` element. Invalid command-line arguments give
+ * exit code 2.
+ */
+import * as fs from "fs"
+import { asciiToMathML } from "."
+/**
+ * ## Arguments
+ *
+ * The flags map to the options of `asciiToMathML`. In batch mode, each
+ * line of the input files or the standard input is a separate equation.
+ * Otherwise, the whole contents of a file is one equation. Arguments that
+ * are not flags are equations, or file names if `--file` precedes them.
+ * Equations starting with `-` can be given after `--`.
+ */
+interface Arguments {
+    inline: boolean
+    escapePunctuation: boolean
+    safe: boolean
+    batch: boolean
+    help: boolean
+    equations: string[]
+    files: string[]
+}
+
+const usage = `Usage: asciimath2ml [options] [equation...]
+
+Converts AsciiMath equations to MathML. If no equations or files are given,
+the input is read from stdin.
+
+Options:
+  -i, --inline              Render equations inline instead of as blocks
+  -e, --escape-punctuation  Output punctuation in text as character entities
+  -s, --safe                Escape text and disable unsafe commands
+  -b, --batch               Convert each line of the input separately
+  -f, --file <path>         Read input from a file, can be repeated
+  -h, --help                Show this help
+`
+
+class UsageError extends Error {}
+
+function parseArguments(argv: string[]): Arguments {
+    let res: Arguments = { inline: false, escapePunctuation: false,
+        safe: false, batch: false, help: false, equations: [], files: [] }
+    for (let i = 0; i < argv.length; ++i) {
+        let arg = argv[i]
+        switch (arg) {
+            case "-i": case "--inline":
+                res.inline = true
+                break
+            case "-e": case "--escape-punctuation":
+                res.escapePunctuation = true
+                break
+            case "-s": case "--safe":
+                res.safe = true
+                break
+            case "-b": case "--batch":
+                res.batch = true
+                break
+            case "-f": case "--file":
+                if (++i >= argv.length)
+                    throw new UsageError(`Missing file name after ${arg}`)
+                res.files.push(argv[i])
+                break
+            case "-h": case "--help":
+                res.help = true
+                break
+            case "--":
+                res.equations.push(...argv.slice(i + 1))
+                return res
+            default:
+                if (arg.startsWith("-") && arg.length > 1 && !/^-\d/.test(arg))
+                    throw new UsageError(`Unknown option ${arg}`)
+                res.equations.push(arg)
+        }
+    }
+    return res
+}
+/**
+ * ## Input
+ *
+ * Equations given as arguments are always converted separately. Input read
+ * from files and stdin is split to lines in batch mode. Empty lines are
+ * skipped.
+ */
+function readEquations(args: Arguments): string[] {
+    let inputs = args.files.map(file => fs.readFileSync(file, "utf8"))
+    if (!args.equations.length && !args.files.length)
+        inputs.push(fs.readFileSync(0, "utf8"))
+    if (args.batch)
+        inputs = inputs.flatMap(input => input.split(/\r?\n/))
+    return [...args.equations, ...inputs.map(input => input.trim())
+        .filter(input => input)]
+}
+/**
+ * ## Main Program
+ *
+ * The main function returns the exit code.
+ */
+function main(argv: string[]): number {
+    let args: Arguments
+    try {
+        args = parseArguments(argv)
+    }
+    catch (e) {
+        if (!(e instanceof UsageError))
+            throw e
+        process.stderr.write(`${e.message}\n\n${usage}`)
+        return 2
+    }
+    if (args.help) {
+        process.stdout.write(usage)
+        return 0
+    }
+    let equations: string[]
+    try {
+        equations = readEquations(args)
+    }
+    catch (e) {
+        process.stderr.write(`${(e as Error).message}\n`)
+        return 2
+    }
+    let errors = false
+    for (let eq of equations) {
+        let mathml = asciiToMathML(eq, { inline: args.inline,
+            escapePunctuation: args.escapePunctuation, safe: args.safe })
+        errors = errors || mathml.includes("<merror>")
+        process.stdout.write(mathml + "\n")
+    }
+    return errors ? 1 : 0
+}
+
+process.exitCode = main(process.argv.slice(2))
@@ -0,0 +1,524 @@
+/**
+ * # Content MathML Output
+ *
+ * Presentation MathML describes how an equation looks. Computer algebra
+ * systems and grading tools need to know what it means. For them, equations
+ * can be converted to [Content MathML][] which consists of applications of
+ * operators and functions, such as
+ * `<apply><plus/><ci>a</ci><cn>1</cn></apply>`.
+ *
+ * The syntax tree produced by the parser is presentational. Operators are
+ * listed in rows in the order they appear in the input, and the grammar does
+ * not know their precedence. So, before we can output Content MathML, we need
+ * to parse the rows once more using the precedence of operators. The
+ * precedence follows the common mathematical conventions.
+ *
+ * Constructs that have no meaning in Content MathML, such as accents, are
+ * output as applications of symbols from the `ambiguous` content dictionary.
+ *
+ * [Content MathML]: https://www.w3.org/TR/MathML3/chapter4.html
+ */
+import { Node, BracketNode, MatrixNode, ScriptNode } from "."
+import { convertText, fontTables } from "./chartables"
+/**
+ * ## Operators
+ *
+ * Binary operators are listed below with their Content MathML element and
+ * precedence level. Operators with a higher level bind tighter. Operators that
+ * are associative are n-ary in Content MathML, so a chain of them is output
+ * as a single application. The same holds for equality, which means that all
+ * the arguments are equal.
+ */
+interface BinaryOperator {
+    element: string
+    level: number
+    nary?: boolean
+}
+
+const binaryOperators: { [value: string]: BinaryOperator } = {
+    ",": { element: "list", level: 0, nary: true },
+    "⇒": { element: "implies", level: 1 },
+    "⇔": { element: "equivalent", level: 1 },
+    "or": { element: "or", level: 2, nary: true },
+    "∨": { element: "or", level: 2, nary: true },
+    "and": { element: "and", level: 3, nary: true },
+    "∧": { element: "and", level: 3, nary: true },
+    "=": { element: "eq", level: 4, nary: true },
+    "≠": { element: "neq", level: 4 },
+    "<": { element: "lt", level: 4 },
+    ">": { element: "gt", level: 4 },
+    "≤": { element: "leq", level: 4 },
+    "≥": { element: "geq", level: 4 },
+    "≈": { element: "approx", level: 4 },
+    "≡": { element: "equivalent", level: 4 },
+    "∈": { element: "in", level: 4 },
+    "∉": { element: "notin", level: 4 },
+    "⊂": { element: "prsubset", level: 4 },
+    "⊆": { element: "subset", level: 4 },
+    "→": { element: "tendsto", level: 4 },
+    "∣": { element: "factorof", level: 4 },
+    "+": { element: "plus", level: 5, nary: true },
+    "−": { element: "minus", level: 5 },
+    "-": { element: "minus", level: 5 },
+    "∪": { element: "union", level: 5, nary: true },
+    "\\": { element: "setdiff", level: 5 },
+    "⋅": { element: "times", level: 6, nary: true },
+    "×": { element: "times", level: 6, nary: true },
+    "∗": { element: "times", level: 6, nary: true },
+    "÷": { element: "divide", level: 6 },
+    "/": { element: "divide", level: 6 },
+    "∩": { element: "intersect", level: 6, nary: true },
+    "∘": { element: "compose", level: 6, nary: true },
+    "mod": { element: "rem", level: 6 }
+}
+/**
+ * Relations are on level 4. A chain of different relations, like
+ * `a <= b < c`, means that each relation holds between its neighbouring
+ * operands, so it is output as a conjunction of the pairwise relations.
+ */
+const relationLevel = 4
+/**
+ * Juxtaposition means multiplication. It binds as tightly as the other
+ * multiplicative operators.
+ */
+const times = binaryOperators["⋅"]
+/**
+ * Operators that appear where an operand is expected are prefix operators or
+ * constants.
+ */
+const prefixOperators: { [value: string]: string } = {
+    "−": "minus", "-": "minus", "¬": "not", "∀": "forall", "∃": "exists"
+}
+
+const constants: { [value: string]: string } = {
+    "∞": "infinity", "∅": "emptyset", "ℝ": "reals", "ℕ": "naturalnumbers",
+    "ℤ": "integers", "ℚ": "rationals", "ℂ": "complexes", "π": "pi",
+    "γ": "eulergamma"
+}
+/**
+ * Big operators take a body which extends over the following product. Their
+ * limits are given as bound variables and lower and upper limits.
+ */
+const bigOperators: { [value: string]: string } = {
+    "∑": "sum", "∏": "product", "∫": "int", "∮": "int", "lim": "limit",
+    "min": "min", "max": "max", "⋃": "union", "⋂": "intersect"
+}
+/**
+ * Minimum and maximum can also be applied to a list of values, like in
+ * `max(a, b)`. The values are then separate arguments.
+ */
+const naryOperators = [ "min", "max" ]
+/**
+ * Functions in the symbol table map to Content MathML elements. Functions that
+ * are not listed are output as identifiers of type `function`. Single-letter
+ * identifiers `f`, `g`, and `h` followed by parentheses are also treated as
+ * functions.
+ */
+const functions: { [name: string]: string } = {
+    "sin": "sin", "cos": "cos", "tan": "tan", "sec": "sec", "csc": "csc",
+    "cot": "cot", "sinh": "sinh", "cosh": "cosh", "tanh": "tanh",
+    "sech": "sech", "csch": "csch", "coth": "coth", "arcsin": "arcsin",
+    "arccos": "arccos", "arctan": "arctan", "exp": "exp", "ln": "ln",
+    "log": "log", "det": "determinant", "gcd": "gcd", "lcm": "lcm"
+}
+
+const functionNames = [ "f", "g", "h" ]
+/**
+ * Brackets that denote functions are listed by their left bracket.
+ */
+const bracketFunctions: { [left: string]: string } = {
+    "|": "abs", "⌊": "floor", "⌈": "ceiling"
+}
+/**
+ * ## Helpers
+ *
+ * Identifiers and numbers are output as character entities like in the
+ * presentation markup.
+ */
+function entities(value: string): string {
+    return value.replace(/[^A-Za-z0-9.]/gu, ch => {
+        let code = ch.codePointAt(0)!
+        return code < 128 ? `&#${code};` :
+            `&#x${code.toString(16).toUpperCase().padStart(4, "0")};`
+    })
+}
+/**
+ * Applications are created with the function below. The operator is either
+ * an element name or markup of a symbol.
+ */
+function apply(op: string, ...args: string[]): string {
+    let head = op.startsWith("<") ? op : `<${op}/>`
+    return /*html*/`<apply>${head}${args.join("")}</apply>`
+}
+/**
+ * Constructs without a Content MathML counterpart use symbols from the
+ * `ambiguous` content dictionary.
+ */
+function ambiguous(name: string): string {
+    return /*html*/`<csymbol cd="ambiguous">${entities(name)}</csymbol>`
+}
+/**
+ * Parentheses only group their contents, so they are removed from arguments.
+ */
+function group(node: Node): Node {
+    return node.type == "bracket" && node.left == "(" && node.right == ")" ?
+        node.body : node
+}
+/**
+ * Rows are flattened to lists of items. Invisible brackets and nested rows
+ * don't affect the meaning.
+ */
+function items(node: Node): Node[] {
+    node = group(node)
+    return node.type == "row" ? node.items :
+        node.type == "bracket" && !node.left && !node.right ?
+            items(node.body) :
+            [node]
+}
+/**
+ * Big operators can appear bare or with limits as scripts or under/over
+ * nodes. The function below returns the operator and its limits.
+ */
+function bigOperator(node: Node): [string, Node?, Node?] | undefined {
+    let base = node.type == "script" || node.type == "underover" ?
+        node.base : node
+    if (base.type != "operator" || !bigOperators[base.value])
+        return undefined
+    return node.type == "script" ? [base.value, node.sub, node.sup] :
+        node.type == "underover" ? [base.value, node.under, node.over] :
+        [base.value]
+}
+/**
+ * ## Expression Parser
+ *
+ * The parser works on a list of items taken from a row. It uses precedence
+ * climbing to build the applications. The result of each rule is a fragment
+ * of Content MathML. Empty operators produced by stray script or fraction
+ * symbols carry no meaning, so they are left out.
+ */
+class ContentParser {
+    private items: Node[]
+    private pos = 0
+    private renderer: ContentRenderer
+
+    constructor(items: Node[], renderer: ContentRenderer) {
+        this.items = items.filter(item =>
+            item.type != "operator" || item.value)
+        this.renderer = renderer
+    }
+
+    peek(): Node | undefined {
+        return this.items[this.pos]
+    }
+    /**
+     * Binary operators are recognized from operator nodes. Textual operators
+     * like `and` and `mod` are included.
+     */
+    binary(node?: Node): BinaryOperator | undefined {
+        return node && node.type == "operator" ?
+            binaryOperators[node.value] : undefined
+    }
+    /**
+     * An expression consists of operands separated by binary operators whose
+     * level is at least `minLevel`. Operands next to each other are
+     * multiplied. Chains of the same n-ary operator are collected into one
+     * application. Other chains of relations are split into pairwise
+     * relations which are stored in `relations` until the chain ends.
+     */
+    expression(minLevel = 0): string {
+        let left = this.operand()
+        let chain: BinaryOperator | undefined
+        let args: string[] = []
+        let relations: string[] = []
+        while (this.pos < this.items.length) {
+            let next = this.peek()!
+            let op = this.binary(next)
+            if (!op && next.type == "operator" && !prefixOperators[next.value]
+                && !constants[next.value] && !bigOperator(next))
+                op = { element: ambiguous(next.value), level: 4 }
+            let implicit = !op
+            if (implicit)
+                op = times
+            if (op!.level < minLevel)
+                break
+            if (!implicit)
+                this.pos++
+            let right = this.expression(op!.level + 1)
+            if (chain && chain.element == op!.element && op!.nary)
+                args.push(right)
+            else if (chain && chain.level == relationLevel &&
+                op!.level == relationLevel) {
+                relations.push(this.close(chain, [left, ...args]))
+                left = args[args.length - 1]
+                chain = op
+                args = [right]
+            }
+            else {
+                if (chain)
+                    left = this.conjunction(relations,
+                        this.close(chain, [left, ...args]))
+                relations = []
+                chain = op
+                args = [right]
+            }
+        }
+        return chain ? this.conjunction(relations,
+            this.close(chain, [left, ...args])) : left
+    }
+
+    close(op: BinaryOperator, args: string[]): string {
+        return op.element == "list" ?
+            /*html*/`<list>${args.join("")}</list>` :
+            apply(op.element, ...args)
+    }
+
+    conjunction(relations: string[], last: string): string {
+        return relations.length ? apply("and", ...relations, last) : last
+    }
+    /**
+     * Operands are prefix operators applied to an expression, big operators
+     * with their body, or single items followed by optional factorials.
+     */
+    operand(): string {
+        let node = this.items[this.pos++]
+        if (!node)
+            return /*html*/`<cerror>${ambiguous("missing-operand")}</cerror>`
+        if (node.type == "operator") {
+            let prefix = prefixOperators[node.value]
+            if (prefix)
+                return apply(prefix, this.expression(times.level))
+            if (node.value == "+")
+                return this.expression(times.level)
+        }
+        let big = bigOperator(node)
+        if (big)
+            return this.bigOperator(...big)
+        let res = this.renderer.render(node)
+        let next = this.peek()
+        if (node.type == "identifier" && functionNames.includes(node.value) &&
+            next && next.type == "bracket" && next.left == "(") {
+            this.pos++
+            res = apply(/*html*/`<ci type="function">${node.value}</ci>`,
+                this.renderer.arguments(next))
+        }
+        while ((next = this.peek()) && next.type == "operator" &&
+            next.value == "!") {
+            this.pos++
+            res = apply("factorial", res)
+        }
+        return res
+    }
+    /**
+     * The body of a big operator extends over the following product. The
+     * integration variable is taken from the differential `dx` that ends the
+     * integrand. Minimum and maximum without limits followed by a list in
+     * parentheses take the list items as arguments.
+     */
+    bigOperator(value: string, lower?: Node, upper?: Node): string {
+        let bvar: string | undefined
+        let body: string
+        let next = this.peek()
+        if (naryOperators.includes(value) && !lower && !upper && next &&
+            next.type == "bracket" && next.left == "(" && next.right == ")" &&
+            items(next.body).some(part =>
+                part.type == "operator" && part.value == ",")) {
+            this.pos++
+            return apply(bigOperators[value],
+                this.renderer.arguments(next))
+        }
+        let diff = this.differential()
+        if ((value == "∫" || value == "∮") && diff >= 0) {
+            let integrand = this.items.slice(this.pos, diff)
+            bvar = this.renderer.render(this.items[diff + 1])
+            body = integrand.length ?
+                new ContentParser(integrand, this.renderer).expression() :
+                /*html*/`<cn>1</cn>`
+            this.pos = diff + 2
+        }
+        else
+            body = this.expression(times.level)
+        let limits = ""
+        if (lower) {
+            let [variable, low] = this.renderer.boundVariable(lower)
+            if (variable && !bvar)
+                bvar = variable
+            limits += /*html*/`<lowlimit>${low}</lowlimit>`
+        }
+        if (upper)
+            limits += /*html*/`<uplimit>${
+                this.renderer.render(group(upper))}</uplimit>`
+        return apply(bigOperators[value],
+            bvar ? /*html*/`<bvar>${bvar}</bvar>` : "", limits, body)
+    }
+    /**
+     * Returns the index of the first `d` followed by an identifier, or -1 if
+     * no differential is found.
+     */
+    differential(): number {
+        for (let i = this.pos; i < this.items.length - 1; ++i) {
+            let item = this.items[i]
+            if (item.type == "identifier" && item.value == "d" &&
+                this.items[i + 1].type == "identifier")
+                return i
+        }
+        return -1
+    }
+}
+/**
+ * ## Renderer
+ *
+ * The renderer converts single nodes to Content MathML. Rows are parsed with
+ * the expression parser above.
+ */
+class ContentRenderer {
+    private charTables: string[][] = []
+
+    render(node: Node): string {
+        switch (node.type) {
+            case "row":
+                return node.items.length ?
+                    new ContentParser(node.items, this).expression() : ""
+            case "identifier":
+                let value = convertText(node.value,
+                    this.charTables[this.charTables.length - 1])
+                return constants[value] ? `<${constants[value]}/>` :
+                    /*html*/`<ci>${entities(value)}</ci>`
+            case "number":
+                return /*html*/`<cn>${entities(node.value)}</cn>`
+            case "text":
+                return /*html*/`<cs>${entities(node.value)}</cs>`
+            case "operator":
+                return constants[node.value] ? `<${constants[node.value]}/>` :
+                    node.value ? ambiguous(node.value) : ""
+            case "function":
+                return apply(functions[node.name] ||
+                    /*html*/`<ci type="function">${entities(node.name)}</ci>`,
+                    this.arguments(node.arg))
+            case "fraction":
+                return apply("divide", this.render(group(node.numerator)),
+                    this.render(group(node.denominator)))
+            case "root":
+                return node.index ?
+                    apply("root", /*html*/`<degree>${
+                        this.render(group(node.index))}</degree>`,
+                        this.render(group(node.radicand))) :
+                    apply("root", this.render(group(node.radicand)))
+            case "script":
+                return this.script(node)
+            case "underover":
+                return apply(ambiguous("underover"), this.render(node.base),
+                    node.under ? this.render(group(node.under)) : "",
+                    node.over ? this.render(group(node.over)) : "")
+            case "accent":
+                return apply(ambiguous(node.name),
+                    this.render(group(node.base)))
+            case "bracket":
+                return this.bracket(node)
+            case "matrix":
+                return this.matrix(node)
+            case "font":
+                let table = node.table || fontTables[node.font]
+                if (table)
+                    this.charTables.push(table)
+                let res = this.render(node.arg)
+                if (table)
+                    this.charTables.pop()
+                return res
+            case "style":
+            case "enclose":
+                return this.render(node.arg)
+            case "error":
+                return /*html*/`<cerror>${ambiguous(node.code)}<cs>${
+                    entities(node.message)}</cs></cerror>`
+        }
+    }
+    /**
+     * Arguments of functions are separated by commas inside parentheses.
+     */
+    arguments(node: Node): string {
+        return this.list(items(node)).join("")
+    }
+
+    list(nodes: Node[]): string[] {
+        let res: Node[][] = [[]]
+        for (let node of nodes)
+            if (node.type == "operator" && !node.value)
+                continue
+            else if (node.type == "operator" && node.value == ",")
+                res.push([])
+            else
+                res[res.length - 1].push(node)
+        return res.filter(part => part.length).map(part =>
+            new ContentParser(part, this).expression())
+    }
+    /**
+     * Superscripts are powers. Subscripts have no meaning in Content MathML,
+     * so they are output as applications of the `subscript` symbol.
+     */
+    script(node: ScriptNode): string {
+        let res = this.render(node.base)
+        if (node.sub)
+            res = apply(ambiguous("subscript"), res,
+                this.render(group(node.sub)))
+        if (node.sup)
+            res = apply("power", res, this.render(group(node.sup)))
+        return res
+    }
+    /**
+     * The lower limit of a big operator may bind a variable, like in
+     * `i=1` or `x -> 0`. The function returns the variable, if found, and the
+     * limit value.
+     */
+    boundVariable(node: Node): [string | undefined, string] {
+        let parts = items(node)
+        let op = parts[1]
+        if (parts.length > 2 && parts[0].type == "identifier" &&
+            op.type == "operator" && (op.value == "=" || op.value == "→"))
+            return [this.render(parts[0]),
+                new ContentParser(parts.slice(2), this).expression()]
+        return [undefined, this.render(group(node))]
+    }
+    /**
+     * Parentheses group their contents. Absolute values, floors, and ceilings
+     * are functions. Brackets containing commas are intervals, vectors or
+     * sets depending on the bracket characters.
+     */
+    bracket(node: BracketNode): string {
+        let func = node.left && bracketFunctions[node.left]
+        if (func)
+            return apply(func, this.render(node.body))
+        let parts = items(node.body)
+        if (!parts.some(part => part.type == "operator" && part.value == ","))
+            return this.render(node.body)
+        let args = this.list(parts).join("")
+        if (node.left == "{" && node.right == "}")
+            return /*html*/`<set>${args}</set>`
+        if (node.left == "(" && node.right == ")")
+            return /*html*/`<vector>${args}</vector>`
+        if ((node.left == "(" || node.left == "[") &&
+            (node.right == ")" || node.right == "]")) {
+            let closure = node.left == "[" ?
+                node.right == "]" ? "closed" : "closed-open" :
+                "open-closed"
+            return /*html*/`<interval closure="${closure}">${args}</interval>`
+        }
+        return /*html*/`<list>${args}</list>`
+    }
+    /**
+     * Matrices are output row by row.
+     */
+    matrix(node: MatrixNode): string {
+        return /*html*/`<matrix>${node.rows.map(row =>
+            /*html*/`<matrixrow>${row.map(cell =>
+                this.render(cell)).join("")}</matrixrow>`).join("")}</matrix>`
+    }
+}
+/**
+ * ## Converting Syntax Trees
+ *
+ * The function below converts a syntax tree to Content MathML. The result is
+ * the contents of the `<math>` element.
+ */
+export function treeToContentMathML(tree: Node): string {
+    return new ContentRenderer().render(tree)
+}
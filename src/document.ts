@@ -0,0 +1,177 @@
+/**
+ * # Rendering Math in Documents
+ *
+ * Equations are usually embedded in larger documents written in HTML or
+ * Markdown. Instead of making every project find the equations with its own
+ * regular expressions, the library can process the whole document. Equations
+ * are recognized by their delimiters and replaced with MathML. Each delimiter
+ * tells whether the equation is shown inline or as a block.
+ *
+ * Code must not be touched, since it often contains characters like `$` that
+ * look like delimiters. We skip fenced code blocks and code spans of Markdown
+ * as well as the HTML elements that contain code or raw text. Delimiters
+ * preceded by a backslash are escaped and left as they are.
+ */
+/**
+ * ## Delimiters
+ *
+ * A delimiter consists of the left and right strings that surround an
+ * equation and the display mode of the equation.
+ */
+export interface Delimiter {
+    left: string
+    right: string
+    inline: boolean
+}
+/**
+ * The default delimiters are the ones commonly used with TeX. Backticks, the
+ * traditional AsciiMath delimiter, are not included by default, since they
+ * mark code in Markdown. They can be added with
+ * `{ left: "`", right: "`", inline: true }`.
+ */
+export const defaultDelimiters: Delimiter[] = [
+    { left: "$$", right: "$$", inline: false },
+    { left: "\\[", right: "\\]", inline: false },
+    { left: "$", right: "$", inline: true },
+    { left: "\\(", right: "\\)", inline: true },
+    { left: "<am>", right: "</am>", inline: true }
+]
+/**
+ * ## Skipped Regions
+ *
+ * Fenced code blocks start with at least three backticks or tildes at the
+ * beginning of a line and end with a line containing a fence of the same
+ * kind that is at least as long.
+ */
+const fenceStart = / {0,3}(`{3,}|~{3,})/y
+
+function fencedCodeEnd(text: string, pos: number): number {
+    if (pos > 0 && text[pos - 1] != "\n")
+        return -1
+    fenceStart.lastIndex = pos
+    let match = fenceStart.exec(text)
+    if (!match)
+        return -1
+    let fence = match[1]
+    let close = new RegExp(
+        `\\n {0,3}${fence[0]}{${fence.length},}[ \\t]*(?=\\n|$)`, "g")
+    close.lastIndex = pos + match[0].length
+    return close.exec(text) ? close.lastIndex : text.length
+}
+/**
+ * HTML comments and the elements below are skipped up to their end.
+ */
+const rawElement = /<(pre|code|kbd|samp|script|style|textarea)\b[^>]*>/iy
+
+function htmlCodeEnd(text: string, pos: number): number {
+    if (text.startsWith("<!--", pos)) {
+        let end = text.indexOf("-->", pos + 4)
+        return end < 0 ? text.length : end + 3
+    }
+    rawElement.lastIndex = pos
+    let match = rawElement.exec(text)
+    if (!match)
+        return -1
+    let close = new RegExp(`</${match[1]}\\s*>`, "ig")
+    close.lastIndex = rawElement.lastIndex
+    return close.exec(text) ? close.lastIndex : text.length
+}
+/**
+ * A code span starts with a run of backticks and ends with a run of the same
+ * length. If there is no closing run, the backticks are plain text. Code
+ * spans are not skipped, if backticks are used as math delimiters.
+ */
+function codeSpanEnd(text: string, pos: number): number {
+    if (text[pos] != "`")
+        return -1
+    let len = 1
+    while (text[pos + len] == "`")
+        ++len
+    let run = /`+/g
+    run.lastIndex = pos + len
+    let match: RegExpExecArray | null
+    while ((match = run.exec(text)))
+        if (match[0].length == len)
+            return run.lastIndex
+    return pos + len
+}
+/**
+ * ## Finding Equations
+ *
+ * A character is escaped, if an odd number of backslashes precede it.
+ */
+function isEscaped(text: string, pos: number): boolean {
+    let count = 0
+    while (pos - count > 0 && text[pos - count - 1] == "\\")
+        ++count
+    return count % 2 == 1
+}
+/**
+ * The right delimiter is the first one that is not escaped. Inline equations
+ * don't continue over a blank line, so an unclosed delimiter doesn't swallow
+ * the rest of the document. Delimiters that are the same on both sides, like
+ * `$`, must have the equation right next to them. Otherwise, prices like
+ * "$5 and $10" would become equations.
+ */
+function equationEnd(text: string, pos: number, delim: Delimiter): number {
+    let end = text.indexOf(delim.right, pos)
+    while (end >= 0 && isEscaped(text, end))
+        end = text.indexOf(delim.right, end + 1)
+    if (end < 0)
+        return -1
+    let math = text.slice(pos, end)
+    if (!math.trim() || delim.inline && /\n[ \t]*\n/.test(math) ||
+        delim.inline && delim.left == delim.right && /^\s|\s$/.test(math))
+        return -1
+    return end
+}
+/**
+ * An equation starts at a position, if one of the left delimiters is found
+ * there and it's not escaped. The longest matching left delimiter is chosen,
+ * so that `$$` is not taken as two `$`s. The function returns the delimiter
+ * and the position of the right delimiter. It's also used by the
+ * [markdown-it plugin](markdown-it.html).
+ */
+export function findEquation(text: string, pos: number, 
+    delimiters: Delimiter[]): [Delimiter, number] | undefined {
+    if (isEscaped(text, pos))
+        return undefined
+    let delim = delimiters.reduce<Delimiter | undefined>((res, d) => 
+        d.left && text.startsWith(d.left, pos) && 
+        (!res || d.left.length > res.left.length) ? d : res, undefined)
+    let end = delim ? equationEnd(text, pos + delim.left.length, delim) : -1
+    return delim && end >= 0 ? [delim, end] : undefined
+}
+/**
+ * ## Replacing Equations
+ *
+ * The document is scanned from left to right. At each position we first
+ * check for regions that are skipped and then for equations. The equations
+ * found are passed to the `convert` function given by the caller, and the
+ * rest of the document is copied as is.
+ */
+export function replaceMath(text: string, delimiters: Delimiter[],
+    convert: (math: string, inline: boolean) => string): string {
+    let codeSpans = !delimiters.some(d => d.left.includes("`"))
+    let res = ""
+    let start = 0
+    let pos = 0
+    while (pos < text.length) {
+        let skip = Math.max(fencedCodeEnd(text, pos), htmlCodeEnd(text, pos),
+            codeSpans ? codeSpanEnd(text, pos) : -1)
+        if (skip > pos) {
+            pos = skip
+            continue
+        }
+        let found = findEquation(text, pos, delimiters)
+        if (!found) {
+            pos++
+            continue
+        }
+        let [delim, end] = found
+        res += text.slice(start, pos) + convert(
+            text.slice(pos + delim.left.length, end).trim(), delim.inline)
+        pos = start = end + delim.right.length
+    }
+    return res + text.slice(start)
+}
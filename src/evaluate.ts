@@ -0,0 +1,501 @@
+/**
+ * # Numeric Evaluation
+ *
+ * The same grammar that renders a formula can also compute its value. This is
+ * useful, for example, when answers to exercises are checked numerically. The
+ * evaluator walks the syntax tree and computes a number from it. Variables get
+ * their values from a scope object given by the caller.
+ *
+ * Like in the [Content MathML output](content.html), rows of the syntax tree
+ * are parsed once more to apply the precedence of operators. The evaluator
+ * supports arithmetic, powers, fractions, roots, the functions of the symbol
+ * table, absolute values, floors, ceilings, and sums and products with
+ * bounds. Everything else is reported as an error.
+ */
+import { Node, BracketNode, FunctionNode, ScriptNode } from "."
+/**
+ * ## Scope and Errors
+ *
+ * The scope maps identifiers to numbers or functions. Identifiers are given as
+ * they appear in the syntax tree, so Greek letters are written as Unicode
+ * characters such as `"α"`. Subscripted variables like `x_1` are looked up
+ * with the key `"x_1"`. The constants `π` and `e` are defined by default, but
+ * they can be overridden.
+ */
+export interface Scope {
+    [name: string]: number | ((...args: number[]) => number)
+}
+
+const constants: Scope = { "π": Math.PI, "e": Math.E }
+/**
+ * Problems found during evaluation are thrown as exceptions. The error
+ * contains the range of input that caused it, if it's known.
+ */
+export class EvaluationError extends Error {
+    start?: number
+    end?: number
+
+    constructor(message: string, node?: { start?: number, end?: number }) {
+        super(message)
+        this.name = "EvaluationError"
+        this.start = node && node.start
+        this.end = node && node.end
+    }
+}
+/**
+ * ## Operators and Functions
+ *
+ * Binary operators have a precedence level and a function that computes the
+ * result. Operators with a higher level bind tighter. Juxtaposition means
+ * multiplication.
+ */
+interface BinaryOperator {
+    level: number
+    compute: (x: number, y: number) => number
+}
+
+const binaryOperators: { [value: string]: BinaryOperator } = {
+    "+": { level: 1, compute: (x, y) => x + y },
+    "−": { level: 1, compute: (x, y) => x - y },
+    "-": { level: 1, compute: (x, y) => x - y },
+    "⋅": { level: 2, compute: (x, y) => x * y },
+    "×": { level: 2, compute: (x, y) => x * y },
+    "∗": { level: 2, compute: (x, y) => x * y },
+    "÷": { level: 2, compute: (x, y) => x / y },
+    "/": { level: 2, compute: (x, y) => x / y },
+    "mod": { level: 2, compute: (x, y) => x % y }
+}
+
+const times = binaryOperators["⋅"]
+/**
+ * Functions of the symbol table are mapped to the functions below. Names are
+ * compared in lower case, so `Sin` is the same as `sin`. The operators `min`
+ * and `max` are also called like functions. Errors thrown by the functions
+ * get their range from the function call.
+ */
+const functions: { [name: string]: (...args: number[]) => number } = {
+    "sin": Math.sin, "cos": Math.cos, "tan": Math.tan,
+    "sec": x => 1 / Math.cos(x), "csc": x => 1 / Math.sin(x),
+    "cot": x => 1 / Math.tan(x), "arcsin": Math.asin, "arccos": Math.acos,
+    "arctan": Math.atan, "sinh": Math.sinh, "cosh": Math.cosh,
+    "tanh": Math.tanh, "sech": x => 1 / Math.cosh(x),
+    "csch": x => 1 / Math.sinh(x), "coth": x => 1 / Math.tanh(x),
+    "exp": Math.exp, "ln": Math.log, "log": Math.log10,
+    "gcd": (...args) => args.reduce(gcd),
+    "lcm": (...args) => args.reduce((x, y) => x * y / gcd(x, y)),
+    "min": Math.min, "max": Math.max
+}
+
+function gcd(x: number, y: number): number {
+    if (!Number.isSafeInteger(x) || !Number.isSafeInteger(y))
+        throw new EvaluationError(
+            "Functions gcd and lcm are defined only for integers")
+    return y == 0 ? Math.abs(x) : gcd(y, x % y)
+}
+/**
+ * Brackets that denote functions are listed by their left bracket.
+ */
+const bracketFunctions: { [left: string]: (x: number) => number } = {
+    "|": Math.abs, "∥": Math.abs, "⌊": Math.floor, "⌈": Math.ceil
+}
+/**
+ * Sums and products are computed by iterating the bound variable. To avoid
+ * hanging on huge bounds, the total number of iterations is limited. Nested
+ * sums share the same budget.
+ */
+const bigOperators: { [value: string]: [number, BinaryOperator] } = {
+    "∑": [0, binaryOperators["+"]],
+    "∏": [1, times]
+}
+
+const maxIterations = 1000000
+/**
+ * ## Helpers
+ *
+ * Parentheses only group their contents. Rows are flattened to lists of
+ * items.
+ */
+function group(node: Node): Node {
+    return node.type == "bracket" && node.left == "(" && node.right == ")" ?
+        node.body : node
+}
+
+function items(node: Node): Node[] {
+    node = group(node)
+    return node.type == "row" ? node.items :
+        node.type == "bracket" && !node.left && !node.right ?
+            items(node.body) :
+            [node]
+}
+/**
+ * Names of nodes are used in error messages.
+ */
+function describe(node: Node): string {
+    switch (node.type) {
+        case "identifier":
+        case "number":
+        case "text":
+        case "operator":
+            return `"${node.value}"`
+        case "function":
+            return `"${node.name}"`
+        case "error":
+            return `"${node.message}"`
+        default:
+            return node.type
+    }
+}
+/**
+ * Empty operators are left by scripts and fractions that are missing their
+ * base. After another fraction or script, like in `1/2/2` or `2^3^2`, they
+ * mean that the construct was chained, which the grammar doesn't support.
+ */
+function incomplete(prev: Node | undefined): string {
+    return prev && prev.type == "fraction" ?
+        "Chained fractions must be grouped, like in (a/b)/c" :
+        prev && (prev.type == "script" || prev.type == "underover") ?
+            "Chained scripts must be grouped, like in a^(b^c)" :
+            "Incomplete expression"
+}
+/**
+ * ## Evaluator
+ *
+ * The evaluator contains the scope and computes the value of nodes. Rows are
+ * evaluated with the `expression` method which uses precedence climbing.
+ */
+class Evaluator {
+    private scope: Scope
+    private budget: { iterations: number }
+
+    constructor(scope: Scope, budget = { iterations: maxIterations }) {
+        this.scope = scope
+        this.budget = budget
+    }
+
+    evaluate(node: Node): number {
+        switch (node.type) {
+            case "row":
+                return this.row(items(node), node)
+            case "number":
+                return this.number(node.value, node)
+            case "identifier":
+                return this.variable(node.value, node)
+            case "function":
+                return this.call(node)
+            case "fraction":
+                return this.evaluate(group(node.numerator)) /
+                    this.evaluate(group(node.denominator))
+            case "root":
+                return this.root(this.evaluate(group(node.radicand)),
+                    node.index ? this.evaluate(group(node.index)) : 2)
+            case "script":
+                return this.script(node)
+            case "bracket":
+                return this.bracket(node)
+            case "style":
+            case "font":
+            case "enclose":
+                return this.evaluate(node.arg)
+            case "error":
+                throw new EvaluationError(
+                    `Invalid input ${describe(node)}`, node)
+            default:
+                throw new EvaluationError(
+                    `Cannot evaluate ${describe(node)}`, node)
+        }
+    }
+    /**
+     * Rows are parsed with a separate cursor, since operands such as sums
+     * consume the items that follow them.
+     */
+    row(nodes: Node[], parent: Node): number {
+        if (nodes.length == 0)
+            throw new EvaluationError("Missing expression", parent)
+        let cursor = { nodes, pos: 0 }
+        let res = this.expression(cursor, 0)
+        let next = nodes[cursor.pos]
+        if (next)
+            throw new EvaluationError(
+                next.type == "operator" && next.value == "," ?
+                    "Lists cannot be evaluated" :
+                next.type == "operator" && !next.value ?
+                    incomplete(nodes[cursor.pos - 1]) :
+                    `Unexpected ${describe(next)}`, next)
+        return res
+    }
+    /**
+     * An expression consists of operands separated by binary operators whose
+     * level is at least `minLevel`. Operands next to each other are
+     * multiplied. Operators that have no numeric meaning, like relations,
+     * stop the expression, and they are reported by the caller.
+     */
+    expression(cursor: Cursor, minLevel: number): number {
+        let left = this.operand(cursor)
+        while (cursor.pos < cursor.nodes.length) {
+            let next = cursor.nodes[cursor.pos]
+            let op = next.type != "operator" || next.value == "|" ? times :
+                binaryOperators[next.value]
+            if (!op || op.level < minLevel ||
+                next.type == "operator" && next.value == "!")
+                break
+            if (op != times || next.type == "operator" && next.value != "|")
+                cursor.pos++
+            left = op.compute(left, this.expression(cursor, op.level + 1))
+        }
+        return left
+    }
+    /**
+     * Operands are numbers, variables, and other nodes, optionally preceded
+     * by a sign and followed by factorials. Sums and products take the
+     * following product as their body. A variable bound to a function is
+     * called with the arguments in the following parentheses. Vertical bars
+     * that the parser did not recognize as brackets denote absolute values.
+     * Empty operators are left by scripts and fractions that are missing
+     * their base.
+     */
+    operand(cursor: Cursor): number {
+        let node = cursor.nodes[cursor.pos++]
+        if (!node)
+            throw new EvaluationError("Missing operand",
+                cursor.nodes[cursor.nodes.length - 1])
+        if (node.type == "operator" && (node.value == "−" ||
+            node.value == "-"))
+            return -this.expression(cursor, times.level)
+        if (node.type == "operator" && node.value == "+")
+            return this.expression(cursor, times.level)
+        let res: number
+        let next = cursor.nodes[cursor.pos]
+        if (this.isBigOperator(node))
+            res = this.bigOperator(node as ScriptNode, cursor)
+        else if (node.type == "identifier" &&
+            typeof this.scope[node.value] == "function" &&
+            next && next.type == "bracket" && next.left == "(") {
+            cursor.pos++
+            res = this.apply(this.scope[node.value] as Function,
+                this.arguments(next), node)
+        }
+        else if (node.type == "operator" && functions[node.value] &&
+            next && next.type == "bracket" && next.left == "(") {
+            cursor.pos++
+            res = this.apply(functions[node.value], this.arguments(next), 
+                node)
+        }
+        else if (node.type == "operator" && node.value == "|")
+            res = Math.abs(this.bars(node, cursor))
+        else if (node.type == "operator" && !node.value)
+            throw new EvaluationError(
+                incomplete(cursor.nodes[cursor.pos - 2]), node)
+        else if (node.type == "operator")
+            throw new EvaluationError(
+                `Cannot evaluate operator ${describe(node)}`, node)
+        else
+            res = this.evaluate(node)
+        while ((next = cursor.nodes[cursor.pos]) && next.type == "operator" &&
+            next.value == "!") {
+            cursor.pos++
+            res = this.factorial(res, next)
+        }
+        return res
+    }
+
+    bars(node: Node, cursor: Cursor): number {
+        let start = cursor.pos
+        let end = cursor.nodes.findIndex((item, i) => i >= start &&
+            item.type == "operator" && item.value == "|")
+        if (end < 0)
+            throw new EvaluationError("Missing closing \"|\"", node)
+        cursor.pos = end + 1
+        return this.row(cursor.nodes.slice(start, end), node)
+    }
+    /**
+     * Numbers must have at most one decimal separator.
+     */
+    number(value: string, node: Node): number {
+        let res = Number(value)
+        if (isNaN(res))
+            throw new EvaluationError(`Invalid number "${value}"`, node)
+        return res
+    }
+    /**
+     * Variables are looked up from the scope and then from the constants.
+     */
+    variable(name: string, node: Node): number {
+        let value = name in this.scope ? this.scope[name] : constants[name]
+        if (value == undefined)
+            throw new EvaluationError(`Unknown identifier "${name}"`, node)
+        if (typeof value != "number")
+            throw new EvaluationError(
+                `Function "${name}" needs arguments in parentheses`, node)
+        return value
+    }
+    /**
+     * Functions of the symbol table can also be overridden in the scope.
+     */
+    call(node: FunctionNode): number {
+        let name = node.name
+        let func = this.scope[name] || functions[name.toLowerCase()]
+        if (typeof func != "function")
+            throw new EvaluationError(`Unknown function "${name}"`, node)
+        return this.apply(func, this.arguments(node.arg), node)
+    }
+
+    apply(func: Function, args: number[], node: Node): number {
+        let res: unknown
+        try {
+            res = func(...args)
+        }
+        catch (e) {
+            if (e instanceof EvaluationError && e.start == undefined)
+                throw new EvaluationError(e.message, node)
+            throw e
+        }
+        if (typeof res != "number")
+            throw new EvaluationError(`Function ${describe(node)
+                } did not return a number`, node)
+        return res
+    }
+    /**
+     * Arguments of functions are separated by commas.
+     */
+    arguments(node: Node): number[] {
+        let res: Node[][] = [[]]
+        for (let item of items(node))
+            if (item.type == "operator" && item.value == ",")
+                res.push([])
+            else
+                res[res.length - 1].push(item)
+        return res.map(arg => this.row(arg, node))
+    }
+    /**
+     * Roots of negative numbers are real for odd indices.
+     */
+    root(radicand: number, index: number): number {
+        return radicand < 0 && index % 2 == 1 ?
+            -Math.pow(-radicand, 1 / index) :
+            Math.pow(radicand, 1 / index)
+    }
+    /**
+     * Superscripts are powers. Subscripts are part of a variable name, so
+     * `x_1` is looked up with the key `"x_1"`.
+     */
+    script(node: ScriptNode): number {
+        let base: number
+        if (node.sub) {
+            let sub = group(node.sub)
+            if (node.base.type != "identifier" ||
+                (sub.type != "identifier" && sub.type != "number"))
+                throw new EvaluationError(
+                    "Subscripts are allowed only in variable names", node)
+            base = this.variable(`${node.base.value}_${sub.value}`, node)
+        }
+        else
+            base = this.evaluate(node.base)
+        return node.sup ? Math.pow(base, this.evaluate(group(node.sup))) :
+            base
+    }
+    /**
+     * Brackets group their contents or denote functions like absolute value.
+     */
+    bracket(node: BracketNode): number {
+        let func = node.left && bracketFunctions[node.left]
+        let res = this.evaluate(node.body)
+        return func ? func(res) : res
+    }
+    /**
+     * Factorials are defined for non-negative integers. Above 170 they
+     * don't fit in a double, so the result is infinity.
+     */
+    factorial(n: number, node: Node): number {
+        if (n < 0 || !Number.isInteger(n))
+            throw new EvaluationError(
+                "Factorial is defined only for non-negative integers", node)
+        if (n > 170)
+            return Infinity
+        let res = 1
+        for (let i = 2; i <= n; ++i)
+            res *= i
+        return res
+    }
+    /**
+     * Sums and products need a lower bound of the form `i=1` and an upper
+     * bound. The body is evaluated for each integer value of the bound
+     * variable.
+     */
+    isBigOperator(node: Node): boolean {
+        let base = node.type == "script" || node.type == "underover" ?
+            node.base : node
+        return base.type == "operator" && !!bigOperators[base.value]
+    }
+
+    bigOperator(node: Node, cursor: Cursor): number {
+        let lower = node.type == "script" ? node.sub :
+            node.type == "underover" ? node.under : undefined
+        let upper = node.type == "script" ? node.sup :
+            node.type == "underover" ? node.over : undefined
+        let base = node.type == "script" || node.type == "underover" ?
+            node.base : node
+        let [init, op] = bigOperators[(base as { value: string }).value]
+        let bound = lower && items(lower)
+        if (!bound || !upper || bound.length < 3 ||
+            bound[0].type != "identifier" || bound[1].type != "operator" ||
+            bound[1].value != "=")
+            throw new EvaluationError(
+                "Sums and products need bounds like _(i=1)^n", node)
+        let name = bound[0].value
+        let from = this.row(bound.slice(2), lower!)
+        let to = this.evaluate(group(upper))
+        if (!Number.isInteger(from) || !Number.isInteger(to))
+            throw new EvaluationError("Bounds must be integers", node)
+        let count = Math.max(to - from + 1, 0)
+        if (count > this.budget.iterations)
+            throw new EvaluationError("Too many iterations", node)
+        this.budget.iterations -= count
+        let start = cursor.pos
+        let end = this.bodyEnd(cursor)
+        let res = init
+        for (let i = from; i <= to; ++i) {
+            let inner = new Evaluator({ ...this.scope, [name]: i }, 
+                this.budget)
+            res = op.compute(res, inner.row(cursor.nodes.slice(start, end),
+                node))
+        }
+        cursor.pos = end
+        return res
+    }
+    /**
+     * The body of a sum or product extends to the next operator that binds
+     * looser than multiplication. A sign at the start of the body belongs to
+     * it.
+     */
+    bodyEnd(cursor: Cursor): number {
+        let { nodes, pos } = cursor
+        let end = pos + 1
+        while (end < nodes.length) {
+            let node = nodes[end]
+            if (node.type == "operator" && node.value != "!" &&
+                !(binaryOperators[node.value] &&
+                    binaryOperators[node.value].level >= times.level))
+                break
+            end++
+        }
+        return Math.min(end, nodes.length)
+    }
+}
+/**
+ * The cursor keeps track of the position in the list of items being
+ * evaluated.
+ */
+interface Cursor {
+    nodes: Node[]
+    pos: number
+}
+/**
+ * ## Evaluating Syntax Trees
+ *
+ * The function below computes the value of a syntax tree. It throws an
+ * `EvaluationError`, if the tree contains unknown identifiers or constructs
+ * that can't be evaluated.
+ */
+export function evaluateTree(tree: Node, scope: Scope = {}): number {
+    return new Evaluator(scope).evaluate(tree)
+}
@@ -0,0 +1,443 @@
+/**
+ * # Formatter
+ *
+ * Equations that are kept in source files for a long time tend to collect
+ * inconsistent style: some authors put spaces around operators and some
+ * don't, some group arguments with braces that are not needed, and some use
+ * alternative names for symbols. The formatter prints an equation in a
+ * canonical form. Formatting the same equation twice gives the same result,
+ * and the formatted equation renders the same way as the original.
+ *
+ * The formatter works on the syntax tree produced by the real parser, so it
+ * knows the structure of the equation. The spelling of symbols is taken from
+ * the input using the positions stored in the nodes. That way we don't need
+ * to map the output characters back to the input. The caller tells which
+ * spelling of a symbol is preferred.
+ *
+ * The canonical form follows these rules:
+ *
+ * - Binary operators and relations are surrounded by single spaces. Commas
+ *   and semicolons are followed by a space. Signs are attached to their
+ *   operand.
+ * - Scripts and fractions written with `/` have no spaces around `_`, `^`,
+ *   and `/`. Arguments are separated from commands with a space unless they
+ *   start with a bracket.
+ * - Braces `{}` around a single expression are removed when they don't change
+ *   the meaning.
+ * - Matrices are laid out one row per line.
+ */
+import { Node, BracketNode, MatrixNode } from "."
+/**
+ * ## Spacing of Operators
+ *
+ * Most operators are surrounded by spaces. The ones listed below attach to
+ * the expression before them. Operators without output attach to both sides.
+ * They come from `_`, `^`, and `/` that are missing an operand.
+ */
+const postfixOperators = [ "!", "′", "″", "'", ",", ";" ]
+const tightOperators = [ "" ]
+/**
+ * Signs attach to the expression after them, if they appear at the beginning
+ * of a row or after another operator.
+ */
+const prefixOperators = [ "+", "−", "-", "±", "∓", "¬" ]
+/**
+ * Script and fraction tokens have no spaces around them.
+ */
+const scriptTokens = [ "_", "^", "/" ]
+/**
+ * The caller tells the preferred spelling of symbols and whether two pieces
+ * of text would merge into a different symbol, if they were written without
+ * a space between them. For example, `(` and `|` make `(|`.
+ */
+export interface Spelling {
+    preferred(input: string): string
+    merges(before: string, after: string): boolean
+}
+/**
+ * ## Helpers
+ *
+ * The children of a node are listed below in the order they appear in the
+ * input.
+ */
+function children(node: Node): Node[] {
+    let res: (Node | undefined)[]
+    switch (node.type) {
+        case "function":
+        case "font":
+        case "style":
+        case "enclose":
+            res = [node.arg]
+            break
+        case "fraction":
+            res = [node.numerator, node.denominator]
+            break
+        case "root":
+            res = [node.index, node.radicand]
+            break
+        case "script":
+            res = [node.base, node.sub, node.sup]
+            break
+        case "underover":
+            res = [node.base, node.under, node.over]
+            break
+        case "accent":
+            res = [node.base]
+            break
+        default:
+            res = []
+    }
+    return (res.filter(n => n) as Node[]).sort((a, b) => a.start! - b.start!)
+}
+/**
+ * Commands are written before their arguments. Scripts and fractions created
+ * with `/` start with their first operand.
+ */
+function isCommand(node: Node): boolean {
+    let args = children(node)
+    return args.length > 0 && args[0].start! > node.start!
+}
+/**
+ * Simple expressions can be used as arguments without braces. Scripts and
+ * fractions can also be operands of `/`.
+ */
+function isSimple(node: Node): boolean {
+    switch (node.type) {
+        case "operator":
+            return !!node.value
+        case "script":
+        case "underover":
+        case "fraction":
+            return isCommand(node)
+        case "row":
+        case "error":
+            return false
+        default:
+            return true
+    }
+}
+
+function isOperand(node: Node): boolean {
+    return isSimple(node) || node.type == "script" ||
+        node.type == "underover"
+}
+/**
+ * Whitespace in the input is collapsed to single spaces, except inside
+ * quoted text.
+ */
+function collapse(text: string): string {
+    return text.trim().replace(/"[^"]*"|\s+/g, m => m[0] == '"' ? m : " ")
+}
+/**
+ * Nodes are formatted differently depending on whether they are items of a
+ * row, operands of `/`, or arguments of commands and scripts. The formatted
+ * parts of a node are joined by the formatter. A part that is `attached` has
+ * no space before it.
+ */
+type Context = "row" | "operand" | "arg"
+
+interface Part {
+    text: string
+    attached: boolean
+}
+/**
+ * ## Formatter
+ *
+ * The formatter keeps the input string, the spelling functions, and the
+ * current indentation of matrix rows.
+ */
+class Formatter {
+    private input: string
+    private spelling: Spelling
+    private indent = ""
+
+    constructor(input: string, spelling: Spelling) {
+        this.input = input
+        this.spelling = spelling
+    }
+    /**
+     * The input between two positions is returned with collapsed whitespace.
+     * If the text is a single symbol, it gets the preferred spelling.
+     */
+    source(start?: number, end?: number): string {
+        let text = collapse(this.input.slice(start, end))
+        return text && this.spelling.preferred(text)
+    }
+    /**
+     * Parts are separated by spaces unless they are attached. A space is
+     * needed also when the parts would merge into another symbol.
+     */
+    join(parts: Part[]): string {
+        let res = ""
+        for (let { text, attached } of parts)
+            if (text)
+                res += !res || attached && !this.spelling.merges(res, text) ?
+                    text : " " + text
+        return res
+    }
+
+    verbatim(node: Node): string {
+        return collapse(this.input.slice(node.start, node.end))
+    }
+    /**
+     * The `format` method prints a node in canonical form. The `context`
+     * tells where the node is used: arguments must be simple expressions,
+     * and operands of `/` can also have scripts.
+     */
+    format(node: Node, context: Context = "row"): string {
+        node = this.unwrap(node, context)
+        switch (node.type) {
+            case "row":
+                return this.row(node.items, node)
+            case "identifier":
+            case "number":
+            case "operator":
+                return this.source(node.start, node.end)
+            case "text":
+            case "error":
+                return this.input.slice(node.start, node.end).trim()
+            case "bracket":
+                return this.bracket(node)
+            case "matrix":
+                return this.matrix(node)
+            default:
+                return this.compound(node)
+        }
+    }
+    /**
+     * Nodes created by macros get the position of the macro invocation. Their
+     * children overlap, so we can't format them. Such nodes are output as
+     * they appear in the input. The same is done for macro definitions which
+     * produce empty rows.
+     */
+    overlaps(nodes: Node[], parent: Node): boolean {
+        let pos = parent.start!
+        for (let node of nodes) {
+            if (node.start! < pos || node.end! > parent.end!)
+                return true
+            pos = node.end!
+        }
+        return false
+    }
+    /**
+     * Items in a row are separated according to the operators between them.
+     * Operators get spaces around them, except for the postfix, prefix, and
+     * tight ones. Vertical bars alternate between opening and closing an
+     * absolute value. The last bar is spaced like other operators, if it's
+     * not closing one. Other items next to each other are separated by a
+     * space, unless the latter one starts with a bracket, a number is
+     * followed by a letter like in `2x`, or a letter is followed by another
+     * one without space like in `dx`. A script that is just a sign, like in
+     * `x^-1`, stays attached to the item after it.
+     */
+    row(items: Node[], parent: Node): string {
+        if (items.length == 0 || this.overlaps(items, parent))
+            return this.verbatim(parent)
+        let parts: Part[] = []
+        let prev: Node | undefined
+        let glued = true
+        let bars = 0
+        let total = items.filter(item => {
+            let node = this.unwrap(item, "row")
+            return node.type == "operator" && !node.textual && node.value == "|"
+        }).length
+        for (let item of items) {
+            let text = this.format(item)
+            let attached = glued
+            let node = this.unwrap(item, "row")
+            if (node.type == "operator" && !node.textual) {
+                let op = node.value
+                let lone = op == "|" && bars % 2 == 0 && bars + 1 == total
+                let closing = op == "|" && bars++ % 2 == 1
+                attached = attached || closing ||
+                    postfixOperators.includes(op) || tightOperators.includes(op)
+                glued = !closing && !lone && (op == "|" ||
+                    tightOperators.includes(op) ||
+                    prefixOperators.includes(op) && this.isPrefix(prev, bars))
+            }
+            else {
+                attached = attached || this.isApplied(prev!, node) ||
+                    prev!.type == "number" && this.startsWithIdentifier(node) ||
+                    this.isLetter(prev!) && this.isLetter(node) &&
+                        prev!.end == node.start ||
+                    this.endsWithSign(prev!) && prev!.end == node.start
+                glued = node.type == "function" &&
+                    node.arg.type == "operator" &&
+                    tightOperators.includes(node.arg.value)
+            }
+            parts.push({ text, attached })
+            prev = node
+        }
+        return this.join(parts)
+    }
+    /**
+     * A sign is a prefix operator at the beginning of a row and after other
+     * operators, except for the postfix ones and closing bars.
+     */
+    isPrefix(prev: Node | undefined, bars: number): boolean {
+        return !prev || prev.type == "operator" &&
+            !postfixOperators.includes(prev.value) &&
+            (prev.value != "|" || bars % 2 == 1)
+    }
+    /**
+     * Brackets are attached to the expression before them, if it looks like
+     * a function application such as `f(x)` or `2(x + 1)`.
+     */
+    isApplied(prev: Node, node: Node): boolean {
+        return this.startsWithBracket(node, true) && (prev.type == "operator" ?
+            postfixOperators.includes(prev.value) && prev.value != "," &&
+                prev.value != ";" :
+            prev.type != "underover" && prev.type != "text")
+    }
+
+    /**
+     * In `x^-1`, the superscript is only the minus sign. The number after it
+     * is the next item in the row.
+     */
+    endsWithSign(node: Node): boolean {
+        if (node.type != "script" && node.type != "underover")
+            return false
+        let last = children(node).pop()!
+        return last.end == node.end && last.type == "operator" &&
+            prefixOperators.includes(last.value)
+    }
+    /**
+     * Letters are identifiers written as a single character in the input.
+     */
+    isLetter(node: Node): boolean {
+        return node.type == "identifier" &&
+            /^[A-Za-z]$/.test(this.input.slice(node.start, node.end))
+    }
+
+    startsWithIdentifier(node: Node): boolean {
+        return node.type == "identifier" ||
+            (node.type == "script" || node.type == "underover") &&
+                !isCommand(node) && this.startsWithIdentifier(node.base)
+    }
+    /**
+     * In rows, only visible brackets are attached to the preceding item.
+     */
+    startsWithBracket(node: Node, visible = false): boolean {
+        return node.type == "bracket" && (!visible || !!node.left) ||
+            node.type == "matrix" ||
+            (node.type == "script" || node.type == "underover") &&
+                !isCommand(node) && this.startsWithBracket(node.base, visible)
+    }
+    /**
+     * Invisible braces around a single expression are dropped, if the
+     * expression can stand on its own in the context where the braces are.
+     */
+    unwrap(node: Node, context: Context): Node {
+        while (node.type == "bracket" && !node.left && !node.right) {
+            let items = node.body.type == "row" ? node.body.items : [node.body]
+            if (items.length != 1 || context == "arg" && !isSimple(items[0]) ||
+                context == "operand" && !isOperand(items[0]))
+                break
+            node = items[0]
+        }
+        return node
+    }
+    /**
+     * Brackets are printed without spaces inside. Commands like `abs` and
+     * `floor` also create brackets. They are followed by a space, unless
+     * their argument starts with a bracket.
+     */
+    bracket(node: BracketNode): string {
+        let body = node.body
+        let left = this.source(node.start, body.start)
+        let right = this.source(body.end, node.end)
+        if (!left && !right)
+            return this.verbatim(node)
+        let command = /\w$/.test(left)
+        let arg = this.unwrap(body, command ? "arg" : "row")
+        return this.join([ { text: left, attached: true },
+            { text: this.format(arg, command ? "arg" : "row"),
+                attached: !command || this.startsWithBracket(arg) },
+            { text: right, attached: true } ])
+    }
+    /**
+     * Other nodes are printed with the tokens between their children. For
+     * example, a script node has its base and the `_` and `^` tokens followed
+     * by the scripts. Command names and script tokens are taken from the
+     * input.
+     */
+    compound(node: Node): string {
+        let args = children(node)
+        if (this.overlaps(args, node))
+            return this.verbatim(node)
+        let context: Context = node.type == "fraction" &&
+            !isCommand(node) ? "operand" : "arg"
+        let parts: Part[] = []
+        let pos = node.start!
+        let attached = false
+        let tokens = 0
+        for (let arg of [...args, undefined]) {
+            let token = this.source(pos, arg ? arg.start : node.end)
+            if (token) {
+                let script = scriptTokens.includes(token)
+                parts.push({ text: token, attached: script })
+                attached = script
+                tokens++
+            }
+            if (arg) {
+                let empty = arg.type == "operator" && !arg.value
+                parts.push({ text: this.format(arg, context),
+                    attached: attached || empty ||
+                        this.startsWithBracket(this.unwrap(arg, context)) })
+                attached = empty
+                pos = arg.end!
+            }
+        }
+        return tokens > 0 ? this.join(parts) : this.verbatim(node)
+    }
+    /**
+     * Matrices are laid out one row per line. The rows are indented by four
+     * spaces relative to the line where the matrix starts. Our own syntax
+     * separates cells with semicolons and rows with double semicolons. In
+     * strict mode, rows are enclosed in brackets and separated by commas. We
+     * check which syntax was used by looking at the input. Only our syntax
+     * has empty rows. The brackets of the matrix are found by leaving out
+     * the separators of empty rows and cells between them and the cells.
+     */
+    matrix(node: MatrixNode): string {
+        let cells = node.rows.reduce((res, row) => res.concat(row), [])
+        if (cells.length == 0 || this.overlaps(cells, node))
+            return this.verbatim(node)
+        let first = node.rows[0]
+        let left = this.source(node.start, cells[0].start)
+            .replace(/[\s;]*$/, "")
+        let right = this.source(cells[cells.length - 1].end, node.end)
+            .replace(/^[\s;]*/, "")
+        let strict = node.rows.length > 1 && 
+            node.rows.every(row => row.length > 0) && this.source(
+                first[first.length - 1].end, node.rows[1][0].start) != ";;"
+        let outer = this.indent
+        this.indent += "    "
+        let rows = node.rows.map(row => {
+            let text = row.map(cell => this.format(cell)).join(strict ?
+                ", " : "; ")
+            if (!strict)
+                return text && this.indent + text
+            let open = this.input.slice(0, row[0].start).trim().slice(-1)
+            let close = this.input.slice(row[row.length - 1].end).trim()[0]
+            return this.indent + open + text + close
+        })
+        this.indent = outer
+        if (strict) {
+            left = left.slice(0, -1).trim()
+            right = right.slice(1).trim()
+        }
+        return `${left}\n${rows.join(strict ? ",\n" : ";;\n")}\n${outer}${
+            right}`
+    }
+}
+/**
+ * ## Formatting Syntax Trees
+ *
+ * The function below formats a syntax tree. It needs the input string from
+ * which the tree was parsed and the spelling functions.
+ */
+export function formatTree(tree: Node, input: string,
+    spelling: Spelling): string {
+    return new Formatter(input, spelling).format(tree).trim()
+}
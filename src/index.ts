@@ -14,28 +14,45 @@
  * 
  * - the input string containing the AsciiMath equation,
  * - current position in the input,
- * - reference to the symbol (token) table, and
- * - stack of character mapping tables currently in effect.
- * 
- * The type for the character mapping table is defined below. It's content is
- * described later in this file.
+ * - reference to the symbol (token) table and the trie built from it,
+ * - flag telling whether TeX style commands are recognized,
+ * - flag telling whether the parser follows the AsciiMath specification 
+ *   strictly,
+ * - flag telling whether the input is untrusted and checked in safe mode,
+ * - list of diagnostics reported while parsing the input, 
+ * - arguments and nesting depth of the macro being expanded, and
+ * - nesting depth of the expression being parsed and its limit.
  */
-type CharTable = string[]
-
 class Scanner {
     private input: string
-    private symbols: SymbolTable
-    private charTables: CharTable[] = []
-    private escapePunctuation: boolean
+    symbols: SymbolTable
+    private trie: TrieNode
+    private options: ParseOptions
+    private texCommands: boolean
+    readonly strictSpec: boolean
+    readonly safe: boolean
+    diagnostics: Diagnostic[] = []
     pos: number
+    private args: Node[] = []
+    private depth = 0
+    private expansions = { count: 0, size: 0, active: 0 }
+    private nesting = 0
+    private maxNesting: number
+    private peeked?: [number, Symbol, number]
     /**
-     * Constructor initializes position to zero and sets the symbol table.
+     * Constructor initializes position to zero and sets the symbol table. The
+     * flags are read from the parse options.
      */
     constructor(input: string, symbols: SymbolTable, 
-        escapePunctuation: boolean) {
+        options: ParseOptions = {}) {
         this.input = input
         this.symbols = symbols
-        this.escapePunctuation = escapePunctuation
+        this.trie = tableTrie(symbols)
+        this.options = options
+        this.texCommands = !!options.texAliases
+        this.strictSpec = !!options.strictSpec
+        this.safe = !!options.safe
+        this.maxNesting = options.maxNesting ?? defaultMaxNesting
         this.pos = 0        
     }
     /**
@@ -51,7 +68,8 @@ class Scanner {
      * number, if we are go past the end of input string.
      */
     skipWhitespace(): number {
-        while (this.pos < this.input.length && /\s/.test(this.input[this.pos]))
+        while (this.pos < this.input.length && 
+            isWhitespace(this.input.charCodeAt(this.pos)))
             ++this.pos
         return this.pos < this.input.length ? this.pos : -1
     }
@@ -63,57 +81,111 @@ class Scanner {
      * 
      * Scanners skips whitespace preceding a symbol. We return a negative
      * position, if we are ath the end of input, and a special eof symbol.
+     * The parser often peeks the same symbol several times, so we remember
+     * the last one.
      */
     peekSymbol(): [Symbol, number] {
         let pos = this.skipWhitespace()
         if (pos < 0)
             return [eof(), pos]
+        if (this.peeked && this.peeked[0] == pos)
+            return [this.peeked[1], this.peeked[2]]
+        let [sym, end] = this.scanSymbol(pos)
+        this.peeked = [pos, sym, end]
+        return [sym, end]
+    }
+    /**
+     * The symbol starting at `pos` is recognized by the method below.
+     */
+    private scanSymbol(pos: number): [Symbol, number] {
         let curr = this.input[pos]
         /**
-         * Check if input is a text `"..."` string enclosed in doublequotes. If
-         * `escapePunctuation` flag is on, replace non-alphanumeric characters
-         * with entity codes. Preserve whitespace inside quotes.
+         * Check if input is a text `"..."` string enclosed in doublequotes. 
+         * Preserve whitespace inside quotes.
          */
         if (curr == '"') {
             while (++pos < this.input.length && this.input[pos] != '"') {}
             let txt = this.input.slice(this.pos + 1, pos)
-            if (this.escapePunctuation)
-                txt = txt.replace(/[^A-Za-z0-9\s]/g, 
-                    ch => `&#${ch.charCodeAt(0)};`)
             return [text(txt), pos + 1]
         }
         /**
          * Check if input is a number. The only accepted decimal separator is
          * dot `.`.
          */
-        if (/\d/.test(curr)) {
-            while (pos < this.input.length && /[\d\.]/.test(this.input[pos]))
+        let code = this.input.charCodeAt(pos)
+        if (isDigit(code)) {
+            while (pos < this.input.length && 
+                (isDigit(code = this.input.charCodeAt(pos)) || code == dot))
                 ++pos
             return [number(this.input.slice(this.pos, pos)), pos]
         }
         /**
-         * Find the correct symbol from the table. The symbol table is a
-         * dictionary whose key is the first character of a symbol and value
-         * is a list of symbols starting with that character. To find the 
-         * correct symbol, we first get the list of symbols for character we 
-         * read from the input. The list of symbols is sorted in descending 
-         * order according to the length. So, we compare them in this order and 
-         * return the first one that matches the input. That way we find the 
-         * longest matching token.
+         * Inside a macro body, `#1` ... `#9` refer to the macro arguments.
+         */
+        let arg = curr == "#" && this.args[+this.input[pos + 1] - 1]
+        if (arg)
+            return [macroArg(this.input.slice(pos, pos + 2), arg), pos + 2]
+        /**
+         * Find the correct symbol from the table. We walk the trie built 
+         * from the symbol table one character at a time. The last symbol 
+         * found on the way is the longest matching token. Symbols that would
+         * split a TeX command are passed over.
+         */
+        let node: TrieNode | undefined = this.trie
+        let match: Symbol | undefined
+        let end = pos
+        for (let i = pos; node && i < this.input.length;) {
+            node = node.next.get(this.input.charCodeAt(i++))
+            if (node?.symbol && !this.splitsCommand(node.symbol, i)) {
+                match = node.symbol
+                end = i
+            }
+        }
+        if (match)
+            return [match, end]
+        /**
+         * Characters outside ASCII that are not in the table are classified
+         * by their Unicode category, as described below.
+         */
+        if (code >= 128) {
+            let [sym, len] = unicodeSymbol(this.input, pos)
+            if (sym)
+                return [sym, pos + len]
+        }
+        /**
+         * In TeX mode, a backslash followed by letters is a command name. If
+         * the command is not found, we report the whole name as an error.
          */
-        let syms = this.symbols[curr]
-        if (syms)
-            for (let i = 0; i < syms.length; ++i) {
-                let sym = syms[i]
-                let len = sym.input.length
-                if (this.input.slice(pos, pos + len) == sym.input)
-                    return [sym, pos + len]
+        if (this.texCommands && curr == "\\") {
+            let end = pos + 1
+            while (end < this.input.length && 
+                isLetter(this.input.charCodeAt(end)))
+                ++end
+            if (end > pos + 1) {
+                let name = this.input.slice(pos, end)
+                return [error(name, "unknown-command", 
+                    `Unknown command "${name}"`, pos, end), end]
             }
+        }
         /**
          * If we don't find a matching symbol, we skip the current character
          * and return error.
          */
-        return [error(curr), pos + 1]
+        return [error(curr, "unknown-symbol", 
+            `Unrecognized character "${curr}"`, pos, pos + 1), pos + 1]
+    }
+    /**
+     * TeX command names consist of a backslash and letters. A symbol matching
+     * the beginning of a longer name is not accepted. For example, `\le` is 
+     * not recognized in `\left`. This also prevents the `\` operator from 
+     * matching the start of an unknown command. The check is done only in TeX
+     * mode.
+     */
+    private splitsCommand(sym: Symbol, end: number): boolean {
+        return this.texCommands && sym.input[0] == "\\" && 
+            end < this.input.length && isLetter(this.input.charCodeAt(end)) && 
+            (sym.input.length == 1 || 
+                isLetter(sym.input.charCodeAt(sym.input.length - 1)))
     }
     /**
      * Get the next symbol from the input and advance the position.
@@ -125,121 +197,547 @@ class Scanner {
         return sym
     }
     /**
-     * To output a variable in a special font, we need to map its character 
-     * codes to another unicode range. This way can use blackboard (double bold), 
-     * calligraphic, or fraktur fonts.
-     * 
-     * When a command for changing font is encountered, we push a new character
-     * table to the stack.
+     * In strict mode, the argument of `color` can be given in parentheses 
+     * like in `color(red)(x)`. Macro definitions are given in parentheses 
+     * too. The method below reads the raw text inside the parentheses, if the
+     * next symbol is a left parenthesis. Otherwise, it returns `undefined`.
+     * Nested parentheses are included in the text.
      */
-    pushCharTable(table: CharTable) {
-        this.charTables.push(table)
+    readParenText(): string | undefined {
+        if (this.skipWhitespace() < 0 || this.input[this.pos] != "(")
+            return undefined
+        let level = 0
+        let end = this.pos
+        for (; end < this.input.length; ++end) {
+            let ch = this.input[end]
+            if (ch == "(")
+                ++level
+            else if (ch == ")" && --level == 0)
+                break
+        }
+        let res = this.input.slice(this.pos + 1, end)
+        this.pos = Math.min(end + 1, this.input.length)
+        return res
     }
     /**
-     * When the scope for the new font closes, we pop the topmost table from the
-     * stack.
+     * Macros defined with `def` are added to the symbol table of the scanner.
+     * They are visible in the rest of the input.
      */
-    popCharTable() {
-        this.charTables.pop()
+    define(sym: Symbol) {
+        this.symbols = extendTable(this.symbols, [sym])
+        this.trie = tableTrie(this.symbols)
+        this.peeked = undefined
     }
     /**
-     * Return the current character table or `undefined`, if the stack is empty.
+     * A macro is expanded by parsing its arguments and then its body with a 
+     * new scanner. The new scanner inherits the symbol table and options, 
+     * and gets the arguments of the macro. The nodes created from the body 
+     * get the position of the macro invocation, and so do the diagnostics 
+     * reported inside the body. A macro that expands itself would loop 
+     * forever, so we limit the depth of the expansion and the total number 
+     * of expansions in the input. A macro that repeats its arguments can 
+     * double the size of the tree with each expansion, so the total size of 
+     * the expansions is limited too. Exceeding a limit aborts the whole 
+     * expansion, including the macros in the arguments. The outermost 
+     * invocation is replaced with a single error.
      */
-    charTable(): CharTable | undefined {
-        return this.charTables[this.charTables.length - 1]
+    expand(name: string, params: number, body: string, start: number): Node {
+        let outermost = this.expansions.active++ == 0
+        let nesting = this.nesting
+        try {
+            let args: Node[] = []
+            for (let i = 0; i < params; ++i)
+                args.push(macroArgParser(this, name))
+            if (this.depth >= maxMacroDepth || 
+                ++this.expansions.count > maxMacroExpansions)
+                throw new MacroLimitError()
+            let res = this.parseNested(body, args, start, this.pos)
+            this.expansions.size += treeSize(res)
+            if (this.expansions.size > maxMacroSize)
+                throw new MacroLimitError()
+            return res
+        }
+        catch (e) {
+            if (!outermost || !(e instanceof MacroLimitError))
+                throw e
+            this.nesting = nesting
+            this.report("invalid-macro", "Macro expansion is nested too " +
+                "deeply, repeated too often, or too large", start, this.pos)
+            return { type: "error", code: "invalid-macro", 
+                message: "Too many macro expansions" }
+        }
+        finally {
+            this.expansions.active--
+        }
+    }
+    /**
+     * Text that stands for a part of the input, such as a macro body or the
+     * contents of Unicode superscripts, is parsed with the method below. The
+     * diagnostics found inside it are moved to the range of the invocation.
+     * The same problem is reported only once for the range.
+     */
+    parseNested(body: string, args: Node[], start: number, end: number): 
+        Node {
+        let scanner = new Scanner(body, this.symbols, this.options)
+        scanner.args = args
+        scanner.depth = this.depth + 1
+        scanner.expansions = this.expansions
+        scanner.nesting = this.nesting
+        let res = recoveringParser(scanner, topStops)
+        relocate(res, start, end)
+        let reported = new Set<string>()
+        for (let d of scanner.diagnostics) {
+            let key = `${d.code} ${d.message}`
+            if (!reported.has(key))
+                this.report(d.code, d.message, start, end, d.severity)
+            reported.add(key)
+        }
+        return res
+    }
+    /**
+     * Brackets, commands, and scripts call the parser recursively. The 
+     * parser enters a new level for each simple expression, so we can stop
+     * before the call stack overflows. Exceeding the limit aborts parsing.
+     */
+    enter() {
+        if (++this.nesting > this.maxNesting)
+            throw new LimitError(
+                `Equation is nested deeper than ${this.maxNesting} levels`)
     }
 
+    leave() {
+        --this.nesting
+    }
+    /**
+     * Problems found in the input are reported with the method below. The 
+     * diagnostic is added to the list which is returned to the caller along 
+     * with the result.
+     */
+    report(code: ErrorCode, message: string, start: number, end: number,
+        severity: Severity = "error") {
+        this.diagnostics.push({ code, message, severity, start, end })
+    }
 }
 /**
- * ## Character Tables
+ * ### Character Classes
+ * 
+ * The scanner classifies characters by their codes instead of testing them
+ * with regular expressions one by one. Whitespace contains the same 
+ * characters as `\s` in regular expressions.
+ */
+const dot = 46
+
+function isDigit(code: number): boolean {
+    return code >= 48 && code <= 57
+}
+
+function isLetter(code: number): boolean {
+    return code >= 65 && code <= 90 || code >= 97 && code <= 122
+}
+
+function isWhitespace(code: number): boolean {
+    return code == 32 || code >= 9 && code <= 13 || code >= 160 && (
+        code == 160 || code == 0x1680 || code >= 0x2000 && code <= 0x200A ||
+        code == 0x2028 || code == 0x2029 || code == 0x202F || 
+        code == 0x205F || code == 0x3000 || code == 0xFEFF)
+}
+/**
+ * ### Symbol Trie
  * 
- * The available character tables are defined next. Here are some samples of
- * what character sets are available. 
+ * The symbols starting with the same character are stored in a [trie][]. Each
+ * node of the trie maps the code of the next character to a child node. A 
+ * node contains a symbol, if the path from the root spells its input. So, the
+ * scanner finds the longest matching symbol by following the input 
+ * characters without slicing the input string.
  * 
- * - Blackboard command `bbb"AaBbCc"` yields: 
- *   <math display="inline"><mstyle displaystyle="true"><mtext>𝔸𝕒𝔹𝕓ℂ𝕔</mtext></mstyle></math>
- * - Calligraphic command `cc"AaBbCc"` yields: 
- *   <math display="inline"><mstyle displaystyle="true"><mtext>𝒜𝒶ℬ𝒷𝒞𝒸</mtext></mstyle></math>
- * - Fraktur command `fr"AaBbCc"` yields: 
- *   <math display="inline"><mstyle displaystyle="true"><mtext>𝔄𝔞𝔅𝔟ℭ𝔠</mtext></mstyle></math>
+ * The trie for a list of symbols is built the first time it's needed and 
+ * cached. Extending a symbol table copies the lists that don't change, so 
+ * macro definitions rebuild only the trie of the list they modify. The tries
+ * of the lists are joined under a common root, which is cached for each 
+ * symbol table. Symbols filed under a wrong first character are not 
+ * reachable from the root, just as they are not found in the table.
+ * 
+ * [trie]: https://en.wikipedia.org/wiki/Trie
+ */
+interface TrieNode {
+    symbol?: Symbol
+    next: Map<number, TrieNode>
+}
+
+const tries = new WeakMap<Symbol[], TrieNode>()
+
+function symbolTrie(syms: Symbol[]): TrieNode {
+    let root = tries.get(syms)
+    if (!root) {
+        root = { next: new Map() }
+        for (let sym of syms) {
+            let node = root
+            for (let i = 0; i < sym.input.length; ++i) {
+                let code = sym.input.charCodeAt(i)
+                let child = node.next.get(code)
+                if (!child) {
+                    child = { next: new Map() }
+                    node.next.set(code, child)
+                }
+                node = child
+            }
+            node.symbol = node.symbol || sym
+        }
+        tries.set(syms, root)
+    }
+    return root
+}
+
+const tableTries = new WeakMap<SymbolTable, TrieNode>()
+
+function tableTrie(table: SymbolTable): TrieNode {
+    let root = tableTries.get(table)
+    if (!root) {
+        root = { next: new Map() }
+        for (let first in table) {
+            let code = first.charCodeAt(0)
+            let child = symbolTrie(table[first]).next.get(code)
+            if (child)
+                root.next.set(code, child)
+        }
+        tableTries.set(table, root)
+    }
+    return root
+}
+/**
+ * ### Unicode Characters
  * 
- * The tables contain just upper and lower case latin alphabets. No other 
- * characters are transformed. The first one is for calligraphic characters.
- */
-let calTable = ["\uD835\uDC9C", "\u212C", "\uD835\uDC9E", "\uD835\uDC9F", "\u2130", 
-    "\u2131", "\uD835\uDCA2", "\u210B", "\u2110", "\uD835\uDCA5", "\uD835\uDCA6", 
-    "\u2112", "\u2133", "\uD835\uDCA9", "\uD835\uDCAA", "\uD835\uDCAB", 
-    "\uD835\uDCAC", "\u211B", "\uD835\uDCAE", "\uD835\uDCAF", "\uD835\uDCB0", 
-    "\uD835\uDCB1", "\uD835\uDCB2", "\uD835\uDCB3", "\uD835\uDCB4", 
-    "\uD835\uDCB5", "\uD835\uDCB6", "\uD835\uDCB7", "\uD835\uDCB8", 
-    "\uD835\uDCB9", "\u212F", "\uD835\uDCBB", "\u210A", "\uD835\uDCBD", 
-    "\uD835\uDCBE", "\uD835\uDCBF", "\uD835\uDCC0", "\uD835\uDCC1", 
-    "\uD835\uDCC2", "\uD835\uDCC3", "\u2134", "\uD835\uDCC5", "\uD835\uDCC6", 
-    "\uD835\uDCC7", "\uD835\uDCC8", "\uD835\uDCC9", "\uD835\uDCCA", 
-    "\uD835\uDCCB", "\uD835\uDCCC", "\uD835\uDCCD", "\uD835\uDCCE", 
-    "\uD835\uDCCF"]
-/**
- * This contains fraktur characters.
- */
-let frkTable = ["\uD835\uDD04", "\uD835\uDD05", "\u212D", "\uD835\uDD07", 
-    "\uD835\uDD08", "\uD835\uDD09", "\uD835\uDD0A", "\u210C", "\u2111", 
-    "\uD835\uDD0D", "\uD835\uDD0E", "\uD835\uDD0F", "\uD835\uDD10", 
-    "\uD835\uDD11", "\uD835\uDD12", "\uD835\uDD13", "\uD835\uDD14", "\u211C", 
-    "\uD835\uDD16", "\uD835\uDD17", "\uD835\uDD18", "\uD835\uDD19", 
-    "\uD835\uDD1A", "\uD835\uDD1B", "\uD835\uDD1C", "\u2128", "\uD835\uDD1E", 
-    "\uD835\uDD1F", "\uD835\uDD20", "\uD835\uDD21", "\uD835\uDD22", 
-    "\uD835\uDD23", "\uD835\uDD24", "\uD835\uDD25", "\uD835\uDD26", 
-    "\uD835\uDD27", "\uD835\uDD28", "\uD835\uDD29", "\uD835\uDD2A", 
-    "\uD835\uDD2B", "\uD835\uDD2C", "\uD835\uDD2D", "\uD835\uDD2E", 
-    "\uD835\uDD2F", "\uD835\uDD30", "\uD835\uDD31", "\uD835\uDD32", 
-    "\uD835\uDD33", "\uD835\uDD34", "\uD835\uDD35", "\uD835\uDD36", 
-    "\uD835\uDD37"];
-/**
- * And finally the blackboard characters.
- */
-let bbbTable = ["\uD835\uDD38", "\uD835\uDD39", "\u2102", "\uD835\uDD3B", 
-    "\uD835\uDD3C", "\uD835\uDD3D", "\uD835\uDD3E", "\u210D", "\uD835\uDD40", 
-    "\uD835\uDD41", "\uD835\uDD42", "\uD835\uDD43", "\uD835\uDD44", "\u2115", 
-    "\uD835\uDD46", "\u2119", "\u211A", "\u211D", "\uD835\uDD4A", "\uD835\uDD4B", 
-    "\uD835\uDD4C", "\uD835\uDD4D", "\uD835\uDD4E", "\uD835\uDD4F", 
-    "\uD835\uDD50", "\u2124", "\uD835\uDD52", "\uD835\uDD53", "\uD835\uDD54", 
-    "\uD835\uDD55", "\uD835\uDD56", "\uD835\uDD57", "\uD835\uDD58", 
-    "\uD835\uDD59", "\uD835\uDD5A", "\uD835\uDD5B", "\uD835\uDD5C", 
-    "\uD835\uDD5D", "\uD835\uDD5E", "\uD835\uDD5F", "\uD835\uDD60", 
-    "\uD835\uDD61", "\uD835\uDD62", "\uD835\uDD63", "\uD835\uDD64", 
-    "\uD835\uDD65", "\uD835\uDD66", "\uD835\uDD67", "\uD835\uDD68", 
-    "\uD835\uDD69", "\uD835\uDD6A", "\uD835\uDD6B"];
-/**
- * Now we can define a function that converts a string using a specified
- * character table. If none is given, we return the same text back.
- */
-function convertText(text: string, table?: CharTable): string {
-    if (!table)
-        return text
-    let res = ""
-    for (let i = 0; i < text.length; ++i) {
-        let ch = text.charCodeAt(i)
-        res += ch >= 65 && ch < 91 ? table[ch-65] : 
-            ch >= 97 && ch < 123 ? table[ch-71] : 
-            text[i]
+ * Equations pasted from PDFs and word processors contain math characters 
+ * like `α`, `≤`, and `∑` instead of their AsciiMath names. Characters that 
+ * are outputs of symbols in the table behave like those symbols. So, `∑` 
+ * gets limits under and over it like `sum`, and `⟨` is a left bracket like 
+ * `(:`. The map from characters to symbols is built from the default table 
+ * when it's first needed.
+ */
+let charSymbols: Map<string, Symbol> | undefined
+
+function charSymbol(ch: string): Symbol | undefined {
+    if (!charSymbols) {
+        charSymbols = new Map()
+        for (let first in symbols)
+            for (let sym of symbols[first]) {
+                if (sym.input[0] != first)
+                    continue
+                let output = sym.output
+                if (sym.kind == SymbolKind.Default || 
+                    sym.kind == SymbolKind.UnderOver) {
+                    let node = symbolNode(sym)
+                    output = node.type == "identifier" || 
+                        node.type == "operator" ? node.value : undefined
+                }
+                else if (sym.kind != SymbolKind.LeftBracket &&
+                    sym.kind != SymbolKind.RightBracket)
+                    continue
+                if (output && output.charCodeAt(0) >= 128 && 
+                    [...output].length == 1 && !charSymbols.has(output))
+                    charSymbols.set(output, { ...sym, input: output })
+            }
     }
-    return res
+    return charSymbols.get(ch)
 }
 /**
- * ## Parser
+ * Superscript and subscript characters are converted to the normal ones and
+ * parsed as the script of the preceding expression. A run of them forms one
+ * script, so `x²³` is `x^23`. Scripts containing several items are grouped
+ * with invisible brackets like `{...}`.
+ */
+const superscripts: { [char: string]: string } = {
+    "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4", "⁵": "5", "⁶": "6", 
+    "⁷": "7", "⁸": "8", "⁹": "9", "⁺": "+", "⁻": "-", "⁼": "=", "⁽": "(", 
+    "⁾": ")", "ⁱ": "i", "ⁿ": "n"
+}
+
+const subscripts: { [char: string]: string } = {
+    "₀": "0", "₁": "1", "₂": "2", "₃": "3", "₄": "4", "₅": "5", "₆": "6", 
+    "₇": "7", "₈": "8", "₉": "9", "₊": "+", "₋": "-", "₌": "=", "₍": "(", 
+    "₎": ")", "ₐ": "a", "ₑ": "e", "ₒ": "o", "ₓ": "x", "ₕ": "h", "ₖ": "k", 
+    "ₗ": "l", "ₘ": "m", "ₙ": "n", "ₚ": "p", "ₛ": "s", "ₜ": "t", "ᵢ": "i", 
+    "ⱼ": "j"
+}
+
+function scriptSymbol(input: string, pos: number, 
+    chars: { [char: string]: string }, kind: SymbolKind): Symbol | undefined {
+    let end = pos
+    while (end < input.length && chars[input[end]])
+        ++end
+    if (end == pos)
+        return undefined
+    let script = input.slice(pos, end)
+    let text = [...script].map(ch => chars[ch]).join("")
+    return {
+        kind,
+        input: script,
+        parser: scanner => {
+            let res = scanner.parseNested(text, [], pos, end)
+            return res.type != "row" ? res : res.items.length == 1 ? 
+                res.items[0] : located({ type: "bracket", body: res }, pos, end)
+        }
+    }
+}
+/**
+ * Other characters are classified by their Unicode category. Letters become
+ * identifiers and digits numbers. The n-ary operators below get limits under
+ * and over them. Other symbols and punctuation are operators. Characters in 
+ * the remaining categories, such as control characters, are not accepted.
+ */
+const naryOperators = /^[∐⋀-⋃⨀-⨊]$/
+
+function unicodeSymbol(input: string, pos: number): 
+    [Symbol | undefined, number] {
+    let sym = scriptSymbol(input, pos, superscripts, SymbolKind.Superscript) ||
+        scriptSymbol(input, pos, subscripts, SymbolKind.Subscript)
+    if (sym)
+        return [sym, sym.input.length]
+    let ch = String.fromCodePoint(input.codePointAt(pos)!)
+    sym = charSymbol(ch) || (
+        /\p{L}/u.test(ch) ? ident(ch) :
+        /\p{N}/u.test(ch) ? number(ch) :
+        naryOperators.test(ch) ? underOverOper(ch) :
+        /[\p{S}\p{P}]/u.test(ch) ? oper(ch, ch) : undefined)
+    return [sym, ch.length]
+}
+/**
+ * ## Character Tables
+ * 
+ * To output a variable in a special font, we need to map its character codes 
+ * to another unicode range. The [character tables](chartables.html) are 
+ * defined in a separate module, since they are used also by the plain text
+ * output.
+ */
+import { CharTable, convertText, fontTables } from "./chartables"
+/**
+ * ## Syntax Tree
+ *
+ * The parser does not output MathML directly. Instead, it builds a syntax tree
+ * that describes the structure of the equation. The tree is exported, so it can
+ * be inspected and transformed outside this module. MathML is generated from
+ * the tree in a separate step described at the end of this file.
+ *
+ * A tree consists of nodes. Each node has a `type` field which tells what kind
+ * of node it is. Texts stored in the nodes are plain unicode strings; they
+ * don't contain any character entities.
+ *
+ * All nodes created by the parser also contain the range of input that produced
+ * them. The `start` and `end` fields are offsets to the input string. They are 
+ * optional, since nodes created outside the parser might not have a position.
+ */
+export interface NodeBase {
+    start?: number
+    end?: number
+}
+/**
+ * A sequence of expressions is stored in a row node. The whole equation is
+ * represented by a row, but so are also the contents of brackets and matrix
+ * cells.
+ */
+export interface RowNode extends NodeBase {
+    type: "row"
+    items: Node[]
+}
+/**
+ * Identifiers, numbers, and plain text strings are the leaves of the tree.
+ */
+export interface IdentifierNode extends NodeBase {
+    type: "identifier"
+    value: string
+}
+
+export interface NumberNode extends NodeBase {
+    type: "number"
+    value: string
+}
+
+export interface TextNode extends NodeBase {
+    type: "text"
+    value: string
+}
+/**
+ * Operators are leaves as well. Some operators such as `and` and `mod` are
+ * rendered as normal text. These have the `textual` flag set.
+ */
+export interface OperatorNode extends NodeBase {
+    type: "operator"
+    value: string
+    textual?: boolean
+}
+/**
+ * Functions like `sin` and `log` are applied to an argument.
+ */
+export interface FunctionNode extends NodeBase {
+    type: "function"
+    name: string
+    arg: Node
+}
+/**
+ * Fractions are created with the `/` operator or the `frac` command.
+ */
+export interface FractionNode extends NodeBase {
+    type: "fraction"
+    numerator: Node
+    denominator: Node
+}
+/**
+ * Square roots have no index, other roots do.
+ */
+export interface RootNode extends NodeBase {
+    type: "root"
+    radicand: Node
+    index?: Node
+}
+/**
+ * Subscripts and superscripts are attached to a base expression. If the base
+ * is an operator like `sum` or `lim` the scripts are put under and over it
+ * instead. The `overset`, `underset`, and `stackrel` commands produce 
+ * under/over nodes as well.
+ */
+export interface ScriptNode extends NodeBase {
+    type: "script"
+    base: Node
+    sub?: Node
+    sup?: Node
+}
+
+export interface UnderOverNode extends NodeBase {
+    type: "underover"
+    base: Node
+    under?: Node
+    over?: Node
+}
+/**
+ * Accents are marks like hats, bars, and braces that are put under or over an
+ * expression. We store the name of the command that created the accent, the
+ * mark character, and its position.
+ */
+export interface AccentNode extends NodeBase {
+    type: "accent"
+    name: string
+    mark: string
+    position: "under" | "over"
+    base: Node
+}
+/**
+ * Bracket nodes surround an expression with left and right brackets. Either
+ * one of the brackets can be invisible, in which case it's `undefined`. 
+ * Commands like `abs` and `floor` also produce bracket nodes.
+ */
+export interface BracketNode extends NodeBase {
+    type: "bracket"
+    left?: string
+    right?: string
+    body: Node
+}
+/**
+ * Matrices contain rows of cells. Matrix brackets can be invisible too.
+ */
+export interface MatrixNode extends NodeBase {
+    type: "matrix"
+    left?: string
+    right?: string
+    rows: Node[][]
+}
+/**
+ * Font commands change the font of their argument. Possible fonts are listed
+ * in the `Font` type. The names follow the `mathvariant` values of MathML. 
+ * Custom font commands can replace the letters with their own character 
+ * table. It contains the replacements for letters `A-Z` followed by `a-z`.
+ */
+export type Font = "bold" | "sans-serif" | "monospace" | "double-struck" |
+    "script" | "fraktur"
+
+export interface FontNode extends NodeBase {
+    type: "font"
+    font: Font
+    arg: Node
+    table?: string[]
+}
+/**
+ * Style nodes set the color, CSS class, or id of their argument. The value is
+ * read from the input.
+ */
+export interface StyleNode extends NodeBase {
+    type: "style"
+    attribute: "color" | "class" | "id"
+    value: string
+    arg: Node
+}
+/**
+ * Enclosures draw notation such as strike-outs over their argument.
+ */
+export interface EncloseNode extends NodeBase {
+    type: "enclose"
+    notation: string
+    arg: Node
+}
+/**
+ * Error nodes mark invalid or unrecognized input. The error code tells what 
+ * kind of problem was found.
+ */
+export interface ErrorNode extends NodeBase {
+    type: "error"
+    code: ErrorCode
+    message: string
+}
+/**
+ * The `Node` type is the union of all node types.
+ */
+export type Node = RowNode | IdentifierNode | NumberNode | TextNode |
+    OperatorNode | FunctionNode | FractionNode | RootNode | ScriptNode |
+    UnderOverNode | AccentNode | BracketNode | MatrixNode | FontNode |
+    StyleNode | EncloseNode | ErrorNode
+/**
+ * The parser uses the helper below to set the position of a node.
+ */
+function located<T extends Node>(node: T, start?: number, end?: number): T {
+    node.start = start
+    node.end = end
+    return node
+}
+/**
+ * ## Diagnostics
  * 
+ * In addition to the error nodes in the syntax tree, the problems found in the 
+ * input are collected to a list of diagnostics. Each diagnostic has an error
+ * code, a message, a severity, and the range of input where the problem was 
+ * found. The `start` and `end` fields are offsets to the input string.
+ */
+export type ErrorCode = "unknown-symbol" | "unknown-command" | 
+    "missing-bracket" | "missing-argument" | 
+    "invalid-macro" | 
+    "unmatched-bracket" | 
+    "misplaced-separator" | 
+    "disabled-command" | 
+    "invalid-attribute" | 
+    "limit-exceeded"
+
+export type Severity = "error" | "warning"
+
+export interface Diagnostic {
+    code: ErrorCode
+    message: string
+    severity: Severity
+    start: number
+    end: number
+}
+/**
+ * ## Parser
+ *
  * The type for parser is simple: a function that takes a scanner and returns
- * a string. In practice, parser returns the MathML fragment corresponding to
- * the MathML expression that the scanner is pointing to.
+ * a node. In practice, parser returns the syntax tree corresponding to the
+ * expression that the scanner is pointing to.
  */
-type Parser = (scanner: Scanner) => string
+type Parser = (scanner: Scanner) => Node
 /**
  * ## Symbols
- * 
- * Symbols are objects returned by the scanner. Each symbol has a `kind` 
+ *
+ * Symbols are objects returned by the scanner. Each symbol has a `kind`
  * attribute. `Default` symbols are not affecting syntax rules, they usually
- * just transform a symbol directly to a corresponding MathML fragment. Other
- * symbol kinds are used when parser needs to do some special processing.
+ * just transform a symbol directly to a corresponding node. Other symbol kinds
+ * are used when parser needs to do some special processing.
  */
 enum SymbolKind {
     Default,
@@ -248,125 +746,140 @@ enum SymbolKind {
     RightBracket,
     MatrixLeftBracket,
     MatrixRightBracket,
-    MatrixCellSep,    
-    MatrixRowSep,    
+    MatrixCellSep,
+    MatrixRowSep,
+    Subscript,
+    Superscript,
     Eof
 }
 /**
  * In addition to the kind, a symbol contains the input string corresponding to
- * the symbol, and the parser which transforms the symbol to MathML.
+ * the symbol, and the parser which transforms the symbol to a node. Brackets
+ * also store their output character in the `output` field, so that the grammar
+ * rules can put it to the bracket and matrix nodes. Invisible brackets have no
+ * output.
  */
 interface Symbol {
     kind: SymbolKind
     input: string
     parser: Parser
+    output?: string
 }
 /**
  * Symbol table contains all symbols. It's key is the first character of a
- * symbol and value is a list of symbols starting with that character. The list 
- * is sorted in descending order according to symbols' lengths. So, the longest 
- * symbols appear first and the shortest last. This makes finding the symbol 
- * matching the current input more efficient (see the `Scanner.peekSymbol` 
+ * symbol and value is a list of symbols starting with that character. The list
+ * is sorted in descending order according to symbols' lengths. So, the longest
+ * symbols appear first and the shortest last. This makes finding the symbol
+ * matching the current input more efficient (see the `Scanner.peekSymbol`
  * method above).
  */
 type SymbolTable = { [firstLetter: string]: Symbol[] }
+/**
+ * The outputs in the symbol table are written as character entities, since
+ * most of them are hard to type or distinguish in the source code. When we
+ * create a symbol, we decode the entities to plain unicode characters with the
+ * function below.
+ */
+function decodeEntities(output: string): string {
+    return output.replace(/&#(x[0-9A-Fa-f]+|\d+);/g, (_, code: string) =>
+        String.fromCodePoint(code[0] == "x" ?
+            parseInt(code.slice(1), 16) : parseInt(code)))
+}
 /**
  * ### Text
- * 
+ *
  * Now we can define a bunch of helper functions that create symbols of various
- * kinds. The first one is used for parsing regular text strings inside 
- * equations. These are rendered inside `<mtext>` element in normal style and 
+ * kinds. The first one is used for parsing regular text strings inside
+ * equations. These are rendered inside `<mtext>` element in normal style and
  * not as _italics_.
- * 
- * We need to do the character translation for the text using the current table.
  */
 function text(input: string): Symbol {
     return {
         kind: SymbolKind.Default,
         input,
-        parser: inp => /*html*/`<mtext>${
-            convertText(input, inp.charTable())}</mtext>`
+        parser: () => ({ type: "text", value: input })
     }
 }
 /**
  * ### Numbers
- * 
- * Numbers are recognized by the scanner and translated simply to `<mn>` 
- * elements.
+ *
+ * Numbers are recognized by the scanner and translated simply to number nodes.
  */
 function number(input: string): Symbol {
     return {
         kind: SymbolKind.Default,
         input,
-        parser: () => /*html*/`<mn>${input}</mn>`
+        parser: () => ({ type: "number", value: input })
     }
 }
 /**
  * ### Errors
- * 
+ *
  * Error symbol is returned when the input is invalid. The error or unrecognized
- * symbol is put into `<merror>` element which renders it usually in red and
- * yellow box.
+ * symbol is stored in an error node. When the symbol is parsed, we also report
+ * a diagnostic with a more descriptive message and the position of the error.
  */
-function error(msg: string): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input: "", 
-        parser: () => /*html*/`<merror><mtext>${msg}</mtext></merror>` 
+function error(output: string, code: ErrorCode, message: string, 
+    start: number, end: number): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input: "",
+        parser: scanner => {
+            scanner.report(code, message, start, end)
+            return { type: "error", code, message: output }
+        }
     }
 }
 /**
  * ### End of Input
- * 
+ *
  * When input string is exhausted we return an `eof` symbol. It has a special
- * kind that terminates the expression parsing rules. The parser itself returns 
- * no output.
+ * kind that terminates the expression parsing rules. The parser itself returns
+ * an empty row.
  */
 function eof(): Symbol {
-    return { 
-        kind: SymbolKind.Eof, 
-        input: "", 
-        parser: () => ""
+    return {
+        kind: SymbolKind.Eof,
+        input: "",
+        parser: () => ({ type: "row", items: [] })
     }
 }
 /**
  * ### Identifiers
- * 
- * Variables or identifiers are embedded in `<mi>` element by the parser. Here
- * we need to also convert the characters, if a font command is in effect. The
- * function below can be used for any input and output.
+ *
+ * Variables or identifiers are stored in identifier nodes. The function below
+ * can be used for any input and output.
  */
 function ident(input: string, output = input): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: scanner => /*html*/`<mi>${
-            convertText(output, scanner.charTable())}</mi>` 
+    let value = decodeEntities(output)
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: () => ({ type: "identifier", value })
     }
 }
 /**
  * ### Operators
- * 
- * Simple operators are enclosed in `<mo>` elements.
+ *
+ * Simple operators are stored in operator nodes.
  */
 function oper(input: string, output: string): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: () => /*html*/`<mo>${output}</mo>` 
+    let value = decodeEntities(output)
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: () => ({ type: "operator", value })
     }
 }
 /**
  * Some operators such as `and`, `or`, or `mod` are rendered as "normal" text.
- * These we put into `<mtext>` element  inside a `<mrow>` element, and insert 
- * leading and trailing spaces.
+ * These we mark with the `textual` flag.
  */
 function textOper(input: string, output = input): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: () => /*html*/`<mrow><mspace width="1ex"/><mtext>${output            
-            }</mtext><mspace width="1ex"/></mrow>` 
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: () => ({ type: "operator", value: output, textual: true })
     }
 }
 /**
@@ -374,104 +887,111 @@ function textOper(input: string, output = input): Symbol {
  * and over them.
  */
 function underOverOper(input: string, oper = input): Symbol {
-    return { 
-        kind: SymbolKind.UnderOver, 
-        input, 
-        parser: () => /*html*/`<mo>${oper}</mo>`
+    let value = decodeEntities(oper)
+    return {
+        kind: SymbolKind.UnderOver,
+        input,
+        parser: () => ({ type: "operator", value })
     }
 }
 /**
  * ### Brackets
- * 
+ *
  * Left bracket symbols such as `(`, `[`, `{` are returned by this function.
- * Since left brackets also trigger expression parsing rules, we give them a 
+ * Since left brackets also trigger expression parsing rules, we give them a
  * special kind. Note that a bracket can be also invisible. In that case, the
- * `output` argument is undefined.
+ * `output` argument is undefined. If a bracket appears in a place where an
+ * expression is expected, it's parsed as an operator.
  */
+function bracketParser(output?: string): Parser {
+    return output ?
+        () => ({ type: "operator", value: output }) :
+        () => ({ type: "row", items: [] })
+}
+
 function leftBracket(input: string, output?: string): Symbol {
+    output = output && decodeEntities(output)
     return {
         kind: SymbolKind.LeftBracket,
         input,
-        parser: output ? 
-            () => /*html*/`<mo>${output}</mo>` :
-            () => ""
+        parser: bracketParser(output),
+        output
     }
 }
 /**
- * Right brackets have their own kind as they terminate expression parsing. 
+ * Right brackets have their own kind as they terminate expression parsing.
  * Also right brackets can be invisible.
  */
 function rightBracket(input: string, output?: string): Symbol {
+    output = output && decodeEntities(output)
     return {
         kind: SymbolKind.RightBracket,
         input,
-        parser: output ? 
-            () => /*html*/`<mo>${output}</mo>` :
-            () => ""
+        parser: bracketParser(output),
+        output
     }
 }
 /**
  * ### Symbols with One Argument
- * 
+ *
  * There are a lot of AsciiMath commands that take one argument. We call them
- * _unary_ symbols. The output generated for these commands might vary quite a 
+ * _unary_ symbols. The nodes generated for these commands might vary quite a
  * lot. Thus we need many parser variants for unary symbols.
- * 
- * The simplest variant first parses the argument by invoking the `sexpr` rule, 
- * and then returns the operator and argument sequentally inside `<mrow>` 
- * element. This parser can be used for symbols like `sin` and `log`.
+ *
+ * The simplest variant first parses the argument by invoking the `sexpr` rule,
+ * and then returns a function node. This parser can be used for symbols like
+ * `sin` and `log`.
  */
-function unaryParser(oper: string): Parser {
+function unaryParser(name: string): Parser {
     return scanner => {
         let arg = sexprParser(scanner)
-        return /*html*/`<mrow>${oper}${arg}</mrow>`
+        return { type: "function", name, arg }
     }
 }
 /**
  * The corresponding helper function for creating the symbol.
  */
-function unary(input: string, oper = input): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: unaryParser(/*html*/`<mo>${oper}</mo>`) 
+function unary(input: string, name = input): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: unaryParser(name)
     }
 }
 /**
- * The second variant embeds the argument inside a specidied MathML tag. This
- * is used for parsing square roots or text strings.
+ * The second variant makes the argument a radicand of a root node. This is
+ * used for parsing square roots.
  */
-function unaryEmbedParser(tag: string): Parser {
-    return scanner => {
-        let arg = sexprParser(scanner)
-        return /*html*/`<${tag}>${arg}</${tag}>`
-    }
+function unaryRootParser(scanner: Scanner): Node {
+    let radicand = argParser(scanner)
+    return { type: "root", radicand }
 }
 
-function unaryEmbed(input: string, tag: string): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: unaryEmbedParser(tag)
+function unaryRoot(input: string): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: unaryRootParser
     }
 }
 /**
- * The third variant embeds the argument into a speciefied tag with another
- * hard-coded argument that is given as a parameter to the function. This is
- * used with commands that put accents under or over a symbol. 
+ * The third variant puts an accent mark under or over the argument. This is
+ * used with commands such as `hat` or `ubrace`.
  */
-function unaryEmbedWithParser(tag: string, arg2: string): Parser {
+function unaryUnderOverParser(name: string, mark: string,
+    position: "under" | "over"): Parser {
     return scanner => {
-        let arg1 = sexprParser(scanner)
-        return /*html*/`<${tag}>${arg1}${arg2}</${tag}>`
+        let base = argParser(scanner)
+        return { type: "accent", name, mark, position, base }
     }
 }
 
-function unaryUnderOver(input: string, tag: string, arg2: string): Symbol {
-    return { 
-        kind: SymbolKind.UnderOver, 
-        input, 
-        parser: unaryEmbedWithParser(tag, /*html*/`<mo>${arg2}</mo>`) 
+function unaryUnderOver(input: string, position: "under" | "over",
+    mark: string): Symbol {
+    return {
+        kind: SymbolKind.UnderOver,
+        input,
+        parser: unaryUnderOverParser(input, decodeEntities(mark), position)
     }
 }
 /**
@@ -480,55 +1000,55 @@ function unaryUnderOver(input: string, tag: string, arg2: string): Symbol {
  */
 function unarySurroundParser(left: string, right: string): Parser {
     return scanner => {
-        let arg = sexprParser(scanner)
-        return /*html*/`<mrow>${left}${arg}${right}</mrow>`
+        let body = argParser(scanner)
+        return { type: "bracket", left, right, body }
     }
 }
 
 function unarySurround(input: string, left: string, right: string): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: unarySurroundParser(/*html*/`<mo>${left}</mo>`, 
-            /*html*/`<mo>${right}</mo>`) 
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: unarySurroundParser(decodeEntities(left),
+            decodeEntities(right))
     }
 }
 /**
- * The fifth version embeds the argument inside a specified tag, and also adds
- * a specified attribute to the tag.
+ * The fifth version encloses the argument with a specified notation. It's used
+ * by the `cancel` command.
  */
-function unaryAttrParser(tag: string, attr: string): Parser {
+function unaryEncloseParser(notation: string): Parser {
     return scanner => {
-        let arg = sexprParser(scanner)
-        return /*html*/`<${tag} ${attr}>${arg}</${tag}>`
+        let arg = argParser(scanner)
+        return { type: "enclose", notation, arg }
     }
 }
 
-function unaryAttr(input: string, tag: string, attr: string): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: unaryAttrParser(tag, attr) 
+function unaryEnclose(input: string, notation: string): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: unaryEncloseParser(notation)
     }
 }
 /**
- * The sixth and last variant is used with math font commands. We will need to
- * specify the character table which we switch on while parsing the argument.
+ * The sixth and last variant is used with font commands. We will need to
+ * specify the font which is applied to the argument. Custom symbols can also
+ * give their own character table for the font.
  */
-function unaryCharTableParser(table: string[]): Parser {
+function unaryFontParser(font: Font, table?: CharTable): Parser {
     return scanner => {
-        scanner.pushCharTable(table)
-        let res = sexprParser(scanner)
-        scanner.popCharTable()
-        return res
+        let arg = argParser(scanner)
+        return table ? { type: "font", font, arg, table } : 
+            { type: "font", font, arg }
     }
 }
 
-function unaryCharTable(input: string, table: string[]): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: unaryCharTableParser(table)
+function unaryFont(input: string, font: Font, table?: CharTable): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: unaryFontParser(font, table)
     }
 }
 /**
@@ -546,262 +1066,612 @@ function textWithWhitespace(input: string): Symbol {
                 while (scanner.pos < scanner['input'].length && scanner['input'][scanner.pos] !== ')') {
                     scanner.pos++
                 }
-                let content = scanner['input'].slice(start, scanner.pos)
+                let value = scanner['input'].slice(start, scanner.pos)
                 if (scanner.pos < scanner['input'].length) scanner.pos++ // skip ')'
-                return /*html*/`<mtext>${convertText(content, scanner.charTable())}</mtext>`
+                return { type: "text", value }
             }
-            return /*html*/`<mtext></mtext>`
+            return { type: "text", value: "" }
         }
     }
 }
 /**
  * ### Symbols with Two Arguments
- * 
+ *
  * Some AsciiMath commands take two arguments. We call them _binary_ symbols,
- * and parse the additional argument before returning the result. Luckily, there
- * are only two variants for binary symbols. The first one is analogous to 
- * `unaryEmbedParser`.
+ * and parse the additional argument before returning the result. The first
+ * variant parses both arguments and combines them into a node with the given
+ * function. It's used with commands such as `frac` and `root`. The commands
+ * whose arguments are in a different order in the specification swap them in
+ * strict mode.
  */
-function binaryEmbedParser(tag: string): Parser {
+function binaryParser(combine: (arg1: Node, arg2: Node) => Node,
+    swapInStrict = false): Parser {
     return scanner => {
-        let arg1 = sexprParser(scanner)
-        let arg2 = sexprParser(scanner)
-        return /*html*/`<${tag}>${arg1}${arg2}</${tag}>`
+        let arg1 = argParser(scanner)
+        let arg2 = argParser(scanner)
+        return swapInStrict && scanner.strictSpec ? combine(arg2, arg1) :
+            combine(arg1, arg2)
     }
 }
 
-function binaryEmbed(input: string, tag: string): Symbol {
-    return { 
+function binary(input: string,
+    combine: (arg1: Node, arg2: Node) => Node, swapInStrict = false): Symbol {
+    return {
         kind: SymbolKind.Default,
-        input, 
-        parser: binaryEmbedParser(tag)
+        input,
+        parser: binaryParser(combine, swapInStrict)
     }
 }
 /**
- * The second variant is analogous to `unaryAttrParser` but instead of getting
- * the attribute as hard-coded argument, we read it's value from the input 
- * string. The value of the argument can theoretically be any recognized symbol,
- * but in practice it almost always is a text symbol.
+ * The functions used to combine the arguments are defined below. Note that the
+ * first argument of `root`, `overset`, and `underset` is the radicand or the
+ * base, and the second one is the index or the expression put under or over 
+ * it. In the specification, it's the other way around.
  */
-function binaryAttrParser(tag: string, attr: string): Parser {
+function fraction(numerator: Node, denominator: Node): Node {
+    return { type: "fraction", numerator, denominator }
+}
+
+function root(radicand: Node, index: Node): Node {
+    return { type: "root", radicand, index }
+}
+
+function overset(base: Node, over: Node): Node {
+    return { type: "underover", base, over }
+}
+
+function underset(base: Node, under: Node): Node {
+    return { type: "underover", base, under }
+}
+/**
+ * The second variant is analogous to `unaryFontParser` but instead of getting
+ * the style as hard-coded argument, we read it's value from the input string.
+ * The value of the argument can theoretically be any recognized symbol, but in
+ * practice it almost always is a text symbol. In strict mode, the value can be
+ * also enclosed in parentheses.
+ * 
+ * The value is copied to the output as an attribute. In safe mode, we check
+ * that it cannot break out of the attribute or do anything else than set a
+ * color or a class name. Rejected values are reported and replaced by an
+ * error node, which is followed by the argument without the attribute.
+ */
+function binaryStyleParser(attribute: StyleNode["attribute"]): Parser {
     return scanner => {
-        let arg1 = scanner.nextSymbol().input
-        let arg2 = sexprParser(scanner)
-        return /*html*/`<${tag} ${attr}="${arg1}">${arg2}</${tag}>`
+        scanner.skipWhitespace()
+        let start = scanner.pos
+        let value = (scanner.strictSpec && scanner.readParenText()) ||
+            scanner.nextSymbol().input
+        let end = scanner.pos
+        let arg = argParser(scanner)
+        if (scanner.safe && !safeAttributes[attribute].test(value)) {
+            scanner.report("invalid-attribute", 
+                `Invalid value "${value}" for ${attribute}`, start, end)
+            return row([located<Node>({ type: "error", 
+                code: "invalid-attribute", message: value }, start, end), 
+                arg])
+        }
+        return { type: "style", attribute, value, arg }
     }
 }
+/**
+ * Colors can be given as names, hex codes, or with the `rgb`, `rgba`, `hsl`,
+ * and `hsla` functions. Class names and ids must be CSS identifiers. Several
+ * class names can be separated by spaces.
+ */
+const safeAttributes: { [attribute in StyleNode["attribute"]]: RegExp } = {
+    color: /^([A-Za-z]+|#[0-9A-Fa-f]{3,8}|(rgb|hsl)a?\([\w\s.,%\/+-]*\))$/,
+    class: /^-?[A-Za-z_][\w-]*(\s+-?[A-Za-z_][\w-]*)*$/,
+    id: /^-?[A-Za-z_][\w-]*$/
+}
 
-function binaryAttr(input: string, tag: string, attr: string): Symbol {
-    return { 
-        kind: SymbolKind.Default, 
-        input, 
-        parser: binaryAttrParser(tag, attr) 
+function binaryStyle(input: StyleNode["attribute"]): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: binaryStyleParser(input)
     }
 }
 /**
- * ## Grammar
+ * ### Macros
  * 
- * Now that we have tools to parse the terminals of the AsciiMath syntax, we can
- * define the more complicated syntax rules for nonterminals. The whole grammar
- * is shown in an abbrevieated format below.
- * ```
- * v ::= [A-Za-z] | greek letters | numbers | other constant symbols
- * u ::= sqrt | text | bb | other unary symbols for font commands
- * b ::= frac | root | stackrel | other binary symbols
- * l ::= ( | [ | { | (: | {: | other left brackets
- * r ::= ) | ] | } | :) | :} | other right brackets
- * S ::= v | lEr | uS | bSS             Simple expression
- * I ::= S_S | S^S | S_S^S | S          Intermediate expression
- * E ::= IE | I/I                       Expression
- * ```
- * 
- * ### Simple Expressions
+ * Macros are shorthands for longer expressions. They are defined with the 
+ * `def` command which takes the macro name, the number of parameters 
+ * (optionally), and the body of the macro in parentheses. For example,
+ * `def(R2)(RR^2)` defines a macro without parameters, and 
+ * `def(pdv)(2)(del #1 / del #2)` a macro with two parameters referred to by 
+ * `#1` and `#2`. The definition itself produces no output. 
  * 
+ * The name and the body are read as raw text, since they are parsed only when
+ * the macro is used. A number between the name and the body is taken as the 
+ * parameter count, if another group follows it. If `def` is not followed by
+ * parentheses, it's just three letters.
+ */
+function defParser(scanner: Scanner): Node {
+    let start = scanner.pos - 3
+    let name = scanner.readParenText()
+    if (name == undefined)
+        return row([...["d", "e", "f"].map((value, i) => located<Node>(
+            { type: "identifier", value }, start + i, start + i + 1))])
+    let body = scanner.readParenText()
+    let params = 0
+    if (body != undefined && /^\s*\d\s*$/.test(body)) {
+        let pos = scanner.pos
+        let next = scanner.readParenText()
+        if (next != undefined) {
+            params = +body
+            body = next
+        }
+        else
+            scanner.pos = pos
+    }
+    if (!/^[^\s\d"#()]\S*$/.test(name) || body == undefined) {
+        scanner.report("invalid-macro", 
+            "Macro definition must have the form def(name)(body)", start, 
+            scanner.pos)
+        return { type: "error", code: "invalid-macro", 
+            message: "Invalid macro definition" }
+    }
+    scanner.define(macro(name, params, body))
+    return { type: "row", items: [] }
+}
+/**
+ * The macro symbol parses its arguments as simple expressions like the 
+ * arguments of binary symbols. Then it expands the body using the arguments.
+ */
+function macro(input: string, params: number, body: string): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: scanner => scanner.expand(input, params, body, 
+            scanner.pos - input.length)
+    }
+}
+/**
+ * An argument is missing, if the input, the enclosing bracket, or the matrix
+ * cell ends before it. The missing argument is reported and shown as an 
+ * error.
+ */
+function macroArgParser(scanner: Scanner, name: string): Node {
+    let [next,] = scanner.peekSymbol()
+    if (!bracketStops.includes(next.kind) && !cellStops.includes(next.kind))
+        return argParser(scanner)
+    let pos = scanner.pos
+    return located(error("Missing argument", "missing-argument", 
+        `Missing argument for macro "${name}"`, pos, pos).parser(scanner),
+        pos, pos)
+}
+/**
+ * An argument reference `#n` inside a macro body returns a copy of the 
+ * argument. The parser sets the position of the copy, so we store the original
+ * to restore its position later. Expansions are not allowed to nest deeper 
+ * or repeat more often than the limits below.
+ */
+const maxMacroDepth = 32
+const maxMacroExpansions = 1000
+const maxMacroSize = 100000
+
+class MacroLimitError extends Error {}
+const argOrigins = new WeakMap<Node, Node>()
+
+function macroArg(input: string, arg: Node): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: () => {
+            let res = { ...arg }
+            argOrigins.set(res, arg)
+            return res
+        }
+    }
+}
+/**
+ * The size of an expansion is the number of objects in it. Copies of the 
+ * same argument share their children, so the sizes are cached to count each
+ * shared child in linear time.
+ */
+const treeSizes = new WeakMap<object, number>()
+
+function treeSize(value: unknown): number {
+    if (!value || typeof value != "object")
+        return 0
+    let res = treeSizes.get(value)
+    if (res == undefined) {
+        res = 1
+        for (let child of Object.values(value))
+            res += treeSize(child)
+        treeSizes.set(value, res)
+    }
+    return res
+}
+/**
+ * After expansion, the nodes created from the macro body get the position of
+ * the macro invocation. Arguments keep their original positions.
+ */
+function relocate(value: unknown, start: number, end: number) {
+    if (Array.isArray(value))
+        value.forEach(v => relocate(v, start, end))
+    else if (value && typeof value == "object") {
+        let node = value as Node
+        let orig = argOrigins.get(node)
+        if (orig)
+            located(node, orig.start, orig.end)
+        else {
+            located(node, start, end)
+            for (let key in node)
+                relocate(node[key as keyof Node], start, end)
+        }
+    }
+}
+/**
+ * ## Grammar
+ *
+ * Now that we have tools to parse the terminals of the AsciiMath syntax, we can
+ * define the more complicated syntax rules for nonterminals. The whole grammar
+ * is shown in an abbrevieated format below.
+ * ```
+ * v ::= [A-Za-z] | greek letters | numbers | other constant symbols
+ * u ::= sqrt | text | bb | other unary symbols for font commands
+ * b ::= frac | root | stackrel | other binary symbols
+ * l ::= ( | [ | { | (: | {: | other left brackets
+ * r ::= ) | ] | } | :) | :} | other right brackets
+ * S ::= v | lEr | uS | bSS             Simple expression
+ * I ::= S_S | S^S | S_S^S | S          Intermediate expression
+ * E ::= IE | I/I                       Expression
+ * ```
+ *
+ * ### Simple Expressions
+ *
  * We already defined parsers for rules `v`, `u`, `b`, `l`, and `r`. So, now we
  * need a parser for the nonterminal `S` which stands for "simple expression".
- * The parser for it is shown below. It returns the MathML for S-expression and 
- * the topmost (root) symbol of the parse tree. This is needed by the `I` rule 
- * for determining whether subscripts and superscripts are shown normally, or 
+ * The parser for it is shown below. It returns the node for S-expression and
+ * the topmost (root) symbol of the parse tree. This is needed by the `I` rule
+ * for determining whether subscripts and superscripts are shown normally, or
  * under and over the expression.
- * 
- * We don't have to check whether a symbol is unary or binary in the `S` rule. 
- * Unary and binary symbols read their arguments inside their parsers. We only 
- * need to check whether the current symbol is a left bracket. If so, we invoke 
+ *
+ * We don't have to check whether a symbol is unary or binary in the `S` rule.
+ * Unary and binary symbols read their arguments inside their parsers. We only
+ * need to check whether the current symbol is a left bracket. If so, we invoke
  * the `E` rule by calling the `exprParser`.
- * 
+ *
  * The special case is when there are no symbols between brackets. Technically,
  * that case is not supported by the grammar presented above, but in practice
  * it's an easy thing to handle; just peek if the next symbol is right bracket
  * and omit the call to `exprParser` in that case.
- * 
+ *
  * However, we need to check whether the right bracket is missing and report an
- * error then.
+ * error then. The error is reported at the position of the left bracket.
+ * 
+ * In strict mode, brackets can also contain a matrix, as explained later.
+ */
+function parseSExpr(scanner: Scanner): [Node, Symbol] {
+    scanner.enter()
+    let res = parseSimple(scanner)
+    scanner.leave()
+    return res
+}
+/**
+ * The function below does the actual parsing. The one above tracks the 
+ * nesting depth, as described in the section on resource limits.
  */
-function parseSExpr(scanner: Scanner): [string, Symbol] {
+function parseSimple(scanner: Scanner): [Node, Symbol] {
+    scanner.skipWhitespace()
+    let start = scanner.pos
     let sym = scanner.nextSymbol()
     if (sym.kind == SymbolKind.LeftBracket) {
-        let lbrac = sym.parser(scanner)
+        let end = scanner.pos
         let [sym2,] = scanner.peekSymbol()
-        let exp = sym2.kind == SymbolKind.RightBracket ? 
-            "" : exprParser(scanner) 
+        let body: RowNode = sym2.kind == SymbolKind.RightBracket ?
+            located({ type: "row", items: [] }, scanner.pos, scanner.pos) : 
+            recoveringParser(scanner, bracketStops)
         sym2 = scanner.nextSymbol()
-        let rbrac = (sym2.kind == SymbolKind.RightBracket ? 
-            sym2 : error("Missing closing paren")).parser(scanner)
-        return [/*html*/`<mrow>${lbrac}${exp}${rbrac}</mrow>`, sym]
+        if (sym2.kind != SymbolKind.RightBracket)
+            body.items.push(located(error("Missing closing paren", 
+                "missing-bracket", `Missing closing bracket for "${sym.input}"`,
+                start, end).parser(scanner), start, end))
+        let res: Node = located({ type: "bracket", left: sym.output, 
+            right: sym2.output, body }, start, scanner.pos)
+        return [scanner.strictSpec && specMatrix(body, res) || res, sym]
     }
-    return [sym.parser(scanner), sym]
+    if (sym.kind == SymbolKind.MatrixCellSep || 
+        sym.kind == SymbolKind.MatrixRowSep)
+        return [located(strayError(sym, start, scanner.pos).parser(scanner),
+            start, scanner.pos), sym]
+    return [located(sym.parser(scanner), start, scanner.pos), sym]
 }
 /**
- * The function below conforms to the Parser type signature and is used when the 
+ * The function below conforms to the Parser type signature and is used when the
  * symbol is not needed.
  */
-function sexprParser(scanner: Scanner): string {
+function sexprParser(scanner: Scanner): Node {
     return parseSExpr(scanner)[0]
 }
 /**
- * ### Intermediate Expressions
+ * ### Arguments
  * 
+ * The AsciiMath specification hides the brackets around arguments of commands,
+ * subscripts, superscripts, and fractions. For example, `sqrt(x)` renders 
+ * without the parentheses. We have chosen to use invisible curly braces `{` 
+ * and `}` for this purpose. In strict mode, we remove the brackets as the 
+ * specification says. Removed brackets are replaced with invisible ones, so 
+ * that the argument is still grouped together. Function symbols such as `sin`
+ * keep their brackets.
+ */
+function removeBrackets(scanner: Scanner, node: Node): Node {
+    return scanner.strictSpec && node.type == "bracket" && 
+        node.left && "([{".includes(node.left) &&
+        node.right && ")]}".includes(node.right) ?
+        located({ type: "bracket", body: node.body }, node.start, node.end) :
+        node
+}
+/**
+ * Unary and binary symbols parse their arguments with the function below.
+ */
+function argParser(scanner: Scanner): Node {
+    return removeBrackets(scanner, sexprParser(scanner))
+}
+/**
+ * ### Intermediate Expressions
+ *
  * The `I` rule handles subscripts and superscripts. Once we've parsed a simple
- * expression, we check whether the next symbol is `_` or `^`. If either is 
- * true, we parse the subscript and/or superscript and return correct MathML
- * element based on kind of the base symbol. If the kind is `UnderOver` we use
- * `<munderover>` element (or its variant); otherwise we enclose the 
- * expressions in `<msubsup>` element.
- */
-function iexprParser(scanner: Scanner): string {
-    let [res, sym] = parseSExpr(scanner)
-    let sub: string | undefined
-    let sup: string | undefined
+ * expression, we check whether the next symbol is `_` or `^`. If either is
+ * true, we parse the subscript and/or superscript and return correct node
+ * based on kind of the base symbol. If the kind is `UnderOver` we create an
+ * under/over node; otherwise we create a script node.
+ * 
+ * Peeking the next symbol skips whitespace, so we have to store the end 
+ * position right after parsing a script.
+ */
+function iexprParser(scanner: Scanner): Node {
+    let [base, sym] = parseSExpr(scanner)
+    let sub: Node | undefined
+    let sup: Node | undefined
+    let end = scanner.pos
     let [next, pos] = scanner.peekSymbol()
-    if (next.input == "_") {
+    if (next.input == "_" || next.kind == SymbolKind.Subscript) {
         scanner.pos = pos
-        sub = sexprParser(scanner);
+        sub = scriptParser(scanner, next);
+        end = scanner.pos;
         [next, pos] = scanner.peekSymbol()
     }
-    if (next.input == "^") {
+    if (next.input == "^" || next.kind == SymbolKind.Superscript) {
         scanner.pos = pos
-        sup = sexprParser(scanner)
+        sup = scriptParser(scanner, next)
+        end = scanner.pos
     }
-    if (sym.kind == SymbolKind.UnderOver)
-        return sub && sup ? /*html*/`<munderover>${res}${sub}${sup}</munderover>` :
-            sub ? /*html*/`<munder>${res}${sub}</munder>` :
-            sup ? /*html*/`<mover>${res}${sup}</mover>` :
-            res
-    else
-        return sub && sup ? /*html*/`<msubsup>${res}${sub}${sup}</msubsup>` :
-            sub ? /*html*/`<msub>${res}${sub}</msub>` :
-            sup ? /*html*/`<msup>${res}${sup}</msup>` :
-            res
+    if (!sub && !sup)
+        return base
+    return located(sym.kind == SymbolKind.UnderOver ?
+        { type: "underover", base, under: sub, over: sup } :
+        { type: "script", base, sub, sup }, base.start, end)
+}
+/**
+ * Unicode superscripts and subscripts contain their script, so the argument
+ * is not parsed separately. A `_` or `^` at the end of input has no script.
+ * The elements of MathML scripts must have both children, so the missing 
+ * script is marked as an error.
+ */
+function scriptParser(scanner: Scanner, sym: Symbol): Node {
+    if (sym.kind == SymbolKind.Subscript || 
+        sym.kind == SymbolKind.Superscript)
+        return sym.parser(scanner)
+    let [next,] = scanner.peekSymbol()
+    if (next.kind == SymbolKind.Eof) {
+        let pos = scanner.pos
+        return located(error("Missing script", "missing-argument", 
+            `Missing script after "${sym.input}"`, pos, pos).parser(scanner),
+            pos, pos)
+    }
+    return argParser(scanner)
 }
 /**
  * ### Expressions
- * 
+ *
  * The `E` rule is the main parsing rule for AsciiMath expressions. It parses
- * intermediate expressions in a sequence and also handles the division 
+ * intermediate expressions in a sequence and also handles the division
  * operator. The parser continues as long as none of the symbols in the
  * `terminators` list is encountered. When that happens, we return to the caller
- * the expression constructed so far.
+ * the row constructed so far.
  */
-const terminators = [ SymbolKind.Eof, SymbolKind.RightBracket, 
-    SymbolKind.MatrixCellSep, SymbolKind.MatrixRowSep, 
+const terminators = [ SymbolKind.Eof, SymbolKind.RightBracket,
+    SymbolKind.MatrixCellSep, SymbolKind.MatrixRowSep,
     SymbolKind.MatrixRightBracket ]
 /**
  * We need to check after each time `iexprParser` is called whether the next
  * symbol is a terminator. This is why it's done in two places inside the loop.
  */
-function exprParser(scanner: Scanner): string {
-    let res = ""
+function exprParser(scanner: Scanner): RowNode {
+    let items: Node[] = []
     while (true) {
         let exp = iexprParser(scanner)
         let [next, pos] = scanner.peekSymbol()
-        if (terminators.includes(next.kind))
-            return res + exp
+        if (terminators.includes(next.kind)) {
+            items.push(exp)
+            return row(items)
+        }
         if (next.input == "/") {
             scanner.pos = pos
             let quot = iexprParser(scanner)
-            exp = /*html*/`<mfrac>${exp}${quot}</mfrac>`;
+            exp = located(fraction(removeBrackets(scanner, exp), 
+                removeBrackets(scanner, quot)), exp.start, quot.end);
             [next, ] = scanner.peekSymbol()
-            if (terminators.includes(next.kind))
-                return res + exp
+            if (terminators.includes(next.kind)) {
+                items.push(exp)
+                return row(items)
+            }
+        }
+        items.push(exp)
+    }
+}
+/**
+ * The position of a row is the range from the first item to the last one.
+ */
+function row(items: Node[]): RowNode {
+    return located({ type: "row", items }, items[0].start, 
+        items[items.length - 1].end)
+}
+/**
+ * ### Error Recovery
+ *
+ * A terminator that doesn't close anything stops `exprParser` too early. For
+ * example, in `a) + b` the stray `)` would end the equation, and the rest of
+ * the input would be lost. Such terminators are marked as errors and parsing
+ * continues after them. The function below parses an expression that ends
+ * only at one of the `stops` symbols. At the top level, that's the end of 
+ * input. Inside brackets, it's also a right bracket. The tree is the same as
+ * the one `exprParser` returns, if there are no stray terminators.
+ */
+const topStops = [ SymbolKind.Eof ]
+const bracketStops = [ SymbolKind.Eof, SymbolKind.RightBracket ]
+const cellStops = [ SymbolKind.Eof, SymbolKind.MatrixCellSep, 
+    SymbolKind.MatrixRowSep, SymbolKind.MatrixRightBracket ]
+
+function recoveringParser(scanner: Scanner, stops: SymbolKind[]): RowNode {
+    let res = exprParser(scanner)
+    let [next, pos] = scanner.peekSymbol()
+    if (stops.includes(next.kind))
+        return res
+    let items = [...res.items]
+    while (!stops.includes(next.kind)) {
+        if (terminators.includes(next.kind)) {
+            let start = scanner.pos
+            scanner.pos = pos
+            items.push(located(strayError(next, start, pos).parser(scanner), 
+                start, pos))
         }
-        res += exp
+        else
+            items.push(...exprParser(scanner).items);
+        [next, pos] = scanner.peekSymbol()
     }
+    return row(items)
+}
+/**
+ * Right brackets and matrix separators get different error messages.
+ */
+function strayError(sym: Symbol, start: number, end: number): Symbol {
+    return sym.kind == SymbolKind.MatrixCellSep || 
+        sym.kind == SymbolKind.MatrixRowSep ?
+        error(sym.input, "misplaced-separator", 
+            `Matrix separator "${sym.input}" outside a matrix`, start, end) :
+        error(sym.input, "unmatched-bracket", 
+            `Unmatched closing bracket "${sym.input}"`, start, end)
+}
+/**
+ * ### Resource Limits
+ *
+ * Equations typed by users can be arbitrarily long and deeply nested. To 
+ * keep the conversion fast and the call stack within bounds, the length of
+ * the input, the nesting depth of expressions, and the size of the output 
+ * are limited. Unlike other problems, exceeding a limit is not recovered 
+ * from. The parser throws the exception below, and the whole equation is
+ * replaced with an error.
+ */
+class LimitError extends Error {}
+
+const defaultMaxNesting = 100
+/**
+ * The error tree covers the whole input. The diagnostic is added to the list,
+ * if one is given.
+ */
+function limitExceeded(e: unknown, input: string, 
+    diagnostics?: Diagnostic[]): RowNode {
+    if (!(e instanceof LimitError))
+        throw e
+    diagnostics?.push({ code: "limit-exceeded", message: e.message, 
+        severity: "error", start: 0, end: input.length })
+    let err: Node = located({ type: "error", code: "limit-exceeded", 
+        message: e.message }, 0, input.length)
+    return row([err])
 }
 /**
  * ## Matrices
- * 
+ *
  * Our syntax for matrices differs completely from the offical specification.
  * We use separate symbols for opening and closing a matrix intead of recycling
- * standard brackets. Matrix cells are separated by semicolons instead of 
- * commas, and rows are separated by double semicolons instead of enclosing 
+ * standard brackets. Matrix cells are separated by semicolons instead of
+ * commas, and rows are separated by double semicolons instead of enclosing
  * them in brackets. The reason for deviating from the original syntax is
  * purely convenience. We can make the parsing simpler and faster by not
- * reusing symbols. Hopefully our syntax is also easier to remember and use as 
+ * reusing symbols. Hopefully our syntax is also easier to remember and use as
  * there are no overloaded symbols.
- * 
- * The parser for matrices takes the opening left bracket as an argument. It 
- * first checks if the next symbol is a closing right bracket or if we are at 
- * the end of input. If so, we return the matrix constructed so far. If not, 
- * we parse the next matrix row by calling `matrixRowParser`.
+ *
+ * The parser for matrices takes the opening left bracket as an argument. It
+ * first checks if the next symbol is a closing right bracket or if we are at
+ * the end of input. If so, we return the matrix constructed so far. A matrix
+ * that is not closed is followed by an error node. If not, we parse the next
+ * matrix row by calling `matrixRowParser`.
  */
-function matrixParser(leftBracket: string): Parser {
+function matrixParser(left?: string): Parser {
     return scanner => {
-        let res = ""
+        let start = scanner.pos
+        let rows: Node[][] = []
         while (true) {
             let [sym, pos] = scanner.peekSymbol()
-            if (sym.kind == SymbolKind.Eof ||
-                sym.kind == SymbolKind.MatrixRightBracket) {
+            if (sym.kind == SymbolKind.MatrixRightBracket) {
                 scanner.pos = pos
-                let rightBracket = sym.parser(scanner)
-                return leftBracket || rightBracket ?
-                    /*html*/`<mrow>${leftBracket}<mtable>${res
-                        }</mtable>${rightBracket}</mrow>` :
-                    /*html*/`<mtable>${res}</mtable>`
+                return { type: "matrix", left, right: sym.output, rows }
+            }
+            if (sym.kind == SymbolKind.Eof) {
+                let end = scanner.pos
+                return row([
+                    located({ type: "matrix", left, rows }, start, end),
+                    located(error("Missing closing bracket", 
+                        "missing-bracket", "Missing closing bracket for matrix",
+                        start, end).parser(scanner), end, end)])
             }
-            let row = matrixRowParser(scanner)
-            res = /*html*/`${res}<mtr>${row}</mtr>`
+            rows.push(matrixRowParser(scanner))
         }
     }
 }
 /**
  * Parser for matrix rows calls `exprParser` repeatedly until either matrix row
  * separator `;;`, closing bracket, or end of input is encountered. Note that
- * `exprParser` also terminates when it sees the cell or row separator symbol 
- * or end of input.
+ * `exprParser` also terminates when it sees the cell or row separator symbol
+ * or end of input. The cell separator is skipped before parsing the next 
+ * cell. If another separator follows, the cell is empty.
  */
-function matrixRowParser(scanner: Scanner): string {
-    let res = ""
+function matrixRowParser(scanner: Scanner): Node[] {
+    let cells: Node[] = []
     while (true) {
         let [sym, pos] = scanner.peekSymbol()
         if (sym.kind == SymbolKind.Eof || sym.kind == SymbolKind.MatrixRowSep) {
-            scanner.pos = pos
-            return res
+            if (pos >= 0)
+                scanner.pos = pos
+            return cells
         }
         if (sym.kind == SymbolKind.MatrixRightBracket)
-            return res
-        let cell = exprParser(scanner)
-        res = /*html*/`${res}<mtd>${cell}</mtd>`
+            return cells
+        if (sym.kind == SymbolKind.MatrixCellSep) {
+            scanner.pos = pos;
+            [sym, pos] = scanner.peekSymbol()
+        }
+        cells.push(cellStops.includes(sym.kind) ?
+            located({ type: "row", items: [] }, scanner.pos, scanner.pos) :
+            recoveringParser(scanner, cellStops))
     }
 }
 /**
- * Symbol for a left bracket opening a matrix is created with this function. 
+ * Symbol for a left bracket opening a matrix is created with this function.
  * When the `output` is undefined the bracket is not rendered.
  */
 function leftMatrix(input: string, output?: string): Symbol {
+    output = output && decodeEntities(output)
     return {
         kind: SymbolKind.MatrixLeftBracket,
         input,
-        parser: matrixParser(output ? /*html*/`<mo>${output}</mo>` : ""),
+        parser: matrixParser(output),
+        output
     }
 }
 /**
  * Symbol for right bracket of a matrix is created similarly.
  */
 function rightMatrix(input: string, output?: string): Symbol {
+    output = output && decodeEntities(output)
     return {
         kind: SymbolKind.MatrixRightBracket,
         input,
-        parser: () => output ? /*html*/`<mo>${output}</mo>` : ""
+        parser: bracketParser(output),
+        output
     }
 }
 /**
@@ -811,7 +1681,7 @@ function matrixCellSep(input: string): Symbol {
     return {
         kind: SymbolKind.MatrixCellSep,
         input,
-        parser: () => ""
+        parser: bracketParser()
     }
 }
 
@@ -819,9 +1689,62 @@ function matrixRowSep(input: string): Symbol {
     return {
         kind: SymbolKind.MatrixRowSep,
         input,
-        parser: () => ""
+        parser: bracketParser()
     }
 }
+/**
+ * ### Matrices in Strict Mode
+ * 
+ * The specification writes matrices as nested brackets, for example 
+ * `[[a,b],[c,d]]` or `((1,0),(0,1))`. In strict mode, we check after parsing 
+ * brackets whether their contents look like a matrix. That is the case when 
+ * the contents consist of at least two rows separated by commas, and each row 
+ * is enclosed in the same type of parentheses or square brackets. All the rows 
+ * must also contain the same number of cells separated by commas. If these 
+ * conditions hold, we return a matrix node; otherwise `undefined`.
+ */
+function specMatrix(body: RowNode, brackets: BracketNode): 
+    MatrixNode | undefined {
+    let items = body.items
+    if (items.length < 3 || items.length % 2 == 0)
+        return undefined
+    let rows: Node[][] = []
+    for (let i = 0; i < items.length; i += 2) {
+        let item = items[i]
+        if (item.type != "bracket" || item.body.type != "row" ||
+            !item.left || !"([".includes(item.left) || 
+            !item.right || !")]".includes(item.right) || 
+            item.left != (items[0] as BracketNode).left ||
+            (i + 1 < items.length && !isComma(items[i + 1])))
+            return undefined
+        rows.push(splitCells(item.body))
+    }
+    if (rows.some(row => row.length != rows[0].length))
+        return undefined
+    return located({ type: "matrix", left: brackets.left, 
+        right: brackets.right, rows }, brackets.start, brackets.end)
+}
+/**
+ * Rows are split into cells at commas.
+ */
+function isComma(node: Node): boolean {
+    return node.type == "operator" && node.value == ","
+}
+
+function splitCells(body: RowNode): Node[] {
+    let cells: Node[] = []
+    let items: Node[] = []
+    for (let item of [...body.items, undefined]) {
+        if (item && !isComma(item)) {
+            items.push(item)
+            continue
+        }
+        cells.push(items.length > 0 ? row(items) : 
+            located({ type: "row", items }, body.start, body.start))
+        items = []
+    }
+    return cells
+}
 /**
  * ## Symbol Table
  * 
@@ -849,18 +1772,18 @@ const symbols: SymbolTable = {
     ],
     b: [
         ident("beta", "&#x03B2;"),
-        unaryUnderOver("bar", "mover", "&#x00AF;"),
-        unaryCharTable("bbb", bbbTable),
-        unaryAttr("bb", "mstyle", 'style="font-weight: bold"'),
+        unaryUnderOver("bar", "over", "&#x00AF;"),
+        unaryFont("bbb", "double-struck"),
+        unaryFont("bb", "bold"),
         ident("b")
     ],
     B: [
         ident("B")
     ],
     c: [
-        unaryAttr("cancel", "menclose", 'notation="updiagonalstrike"'),
-        binaryAttr("color", "mstyle", "mathcolor"),
-        binaryAttr("class", "mrow", "class"),
+        unaryEnclose("cancel", "updiagonalstrike"),
+        binaryStyle("color"),
+        binaryStyle("class"),
         oper("cdots", "&#x22EF;"),
         unarySurround("ceil", "&#x2308;", "&#x2309;"),
         unary("cosh"),
@@ -869,7 +1792,7 @@ const symbols: SymbolTable = {
         unary("cot"),
         unary("csc"),
         ident("chi", "&#x03C7;"),
-        unaryCharTable("cc", calTable),
+        unaryFont("cc", "script"),
         ident("c")
     ],
     C: [
@@ -884,11 +1807,12 @@ const symbols: SymbolTable = {
         oper("diamonds", "&#x22C4;"),
         ident("delta", "&#x03B4;"),
         oper("ddots", "&#x22F1;"),
-        unaryUnderOver("ddot", "mover", ".."),
+        unaryUnderOver("ddot", "over", ".."),
         oper("darr", "&#x2193;"),
         oper("del", "&#x2202;"),
         unary("det"),
-        unaryUnderOver("dot", "mover", "."),
+        { kind: SymbolKind.Default, input: "def", parser: defParser },
+        unaryUnderOver("dot", "over", "."),
         textOper("dim"),
         ident("d")
     ],
@@ -909,8 +1833,8 @@ const symbols: SymbolTable = {
     f: [
         unarySurround("floor", "&#x230A;", "&#x230B;"),
         oper("frown", "&#x2322;"),
-        binaryEmbed("frac", "mfrac"),
-        unaryCharTable("fr", frkTable),
+        binary("frac", fraction),
+        unaryFont("fr", "fraktur"),
         ident("f")
     ],
     F: [
@@ -930,7 +1854,7 @@ const symbols: SymbolTable = {
     h: [
         oper("harr", "&#x2194;"),
         oper("hArr", "&#x21D4;"),
-        unaryUnderOver("hat", "mover", "&#x005E;"),
+        unaryUnderOver("hat", "over", "&#x005E;"),
         ident("h")
     ],
     H: [
@@ -941,7 +1865,7 @@ const symbols: SymbolTable = {
         oper("int", "&#x222B;"),
         oper("in", "&#x2208;"),
         textOper("if"),
-        binaryAttr("id", "mrow", "id"),
+        binaryStyle("id"),
         ident("i")
     ],
     I: [
@@ -1001,9 +1925,9 @@ const symbols: SymbolTable = {
         ident("N")
     ],
     o: [
-        unaryUnderOver("overarc", "mover", "&#x23DC;"),
-        binaryEmbed("overset", "mover"),
-        unaryUnderOver("obrace", "mover", "&#x23DE;"),
+        unaryUnderOver("overarc", "over", "&#x23DC;"),
+        binary("overset", overset, true),
+        unaryUnderOver("obrace", "over", "&#x23DE;"),
         ident("omega", "&#x03C9;"),
         oper("oint", "&#x222E;"),
         textOper("or"),
@@ -1044,7 +1968,7 @@ const symbols: SymbolTable = {
     r: [
         oper("rarr", "&#x2192;"),
         oper("rArr", "&#x21D2;"),
-        binaryEmbed("root", "mroot"),
+        binary("root", root, true),
         ident("rho", "&#x03C1;"),
         ident("r")
     ],
@@ -1053,13 +1977,13 @@ const symbols: SymbolTable = {
         ident("R")
     ],
     s: [
-        binaryEmbed("stackrel", "mover"),
+        binary("stackrel", overset, true),
         oper("setminus", "&#92;"),
         oper("square", "&#x25A1;"),
         ident("sigma", "&#x03C3;"),
         underOverOper("sube", "&#x2286;"),
         underOverOper("supe", "&#x2287;"),
-        unaryEmbed("sqrt", "msqrt"),
+        unaryRoot("sqrt"),
         unary("sinh"),
         unary("sech"),
         underOverOper("sum", "&#x2211;"),
@@ -1067,8 +1991,7 @@ const symbols: SymbolTable = {
         underOverOper("sup", "&#x2283;"),
         unary("sin"),
         unary("sec"),
-        unaryAttr("sf", "mstyle", 
-            'style="font-family: var(--sans-font), sans-serif"'),
+        unaryFont("sf", "sans-serif"),
         ident("s")
     ],
     S: [
@@ -1080,13 +2003,12 @@ const symbols: SymbolTable = {
     ],
     t: [
         ident("theta", "&#x03B8;"),
-        unaryUnderOver("tilde", "mover", "&#126;"),
+        unaryUnderOver("tilde", "over", "&#126;"),
         textWithWhitespace("text"),
         unary("tanh"),
         unary("tan"),
         ident("tau", "&#x03C4;"),
-        unaryAttr("tt", "mstyle", 
-            'style="font-family: var(--mono-font), monospace"'),
+        unaryFont("tt", "monospace"),
         ident("t")
     ],
     T: [
@@ -1097,13 +2019,13 @@ const symbols: SymbolTable = {
         ident("T")
     ],
     u: [
-        binaryEmbed("underset", "munder"),
+        binary("underset", underset, true),
         ident("upsilon", "&#x03C5;"),
-        unaryUnderOver("ubrace", "munder", "&#x23DF;"),
+        unaryUnderOver("ubrace", "under", "&#x23DF;"),
         oper("uarr", "&#x2191;"),
         underOverOper("uuu", "&#x22C3;"),
         oper("uu", "&#x222A;"),
-        unaryUnderOver("ul", "munder", "&#x0332;"),
+        unaryUnderOver("ul", "under", "&#x0332;"),
         ident("u")
     ],
     U: [
@@ -1114,7 +2036,7 @@ const symbols: SymbolTable = {
         ident("vartheta", "&#x03D1;"),
         ident("varphi", "&#x03C6;"),
         oper("vdots", "&#x22EE;"),
-        unaryUnderOver("vec", "mover", "&#x2192;"),
+        unaryUnderOver("vec", "over", "&#x2192;"),
         underOverOper("vvv", "&#x22C1;"),
         oper("vv", "&#x2228;"),
         ident("v")
@@ -1288,21 +2210,1250 @@ const symbols: SymbolTable = {
         rightBracket("}")
     ]
 }
+/**
+ * ## TeX Aliases
+ * 
+ * Many symbols in the AsciiMath specification have alternative names borrowed 
+ * from TeX. They are not included in the symbol table above, but they can be
+ * turned on with the `texAliases` option. An alias is a copy of an existing 
+ * symbol with a different input string. So, it produces exactly the same 
+ * output as the original.
+ * 
+ * The formatter replaces aliases with the original symbols. A few symbols of 
+ * the main table also have two names. The preferred ones are listed below,
+ * and the aliases are added to the list when they are created.
+ */
+const preferredSpellings: { [input: string]: string } = {
+    "Abs": "abs", "hArr": "<=>", "ox": "o+", "rarr": "->", "rArr": "=>",
+    "stackrel": "overset", "\\\\": "setminus"
+}
+
+function alias(input: string, original: string): Symbol {
+    let sym = symbols[original[0]].find(s => s.input == original)!
+    preferredSpellings[input] = original
+    return { ...sym, input }
+}
+/**
+ * The list of aliases is below. Most of them are names of symbols and 
+ * commands, but there are also TeX style brackets `\left(`, `\right)`, etc.
+ * Since `{` and `}` are invisible in AsciiMath, the TeX brackets `\{` and `\}`
+ * are mapped to the visible ones `{:` and `:}`.
+ */
+const texAliases: Symbol[] = [
+    alias("\\alpha", "alpha"), alias("\\beta", "beta"), 
+    alias("\\chi", "chi"), alias("\\delta", "delta"), 
+    alias("\\Delta", "Delta"), alias("\\epsilon", "epsilon"), 
+    alias("\\varepsilon", "varepsilon"), alias("\\eta", "eta"), 
+    alias("\\gamma", "gamma"), alias("\\Gamma", "Gamma"), 
+    alias("\\iota", "iota"), alias("\\kappa", "kappa"), 
+    alias("\\lambda", "lambda"), alias("\\Lambda", "Lambda"), 
+    alias("\\mu", "mu"), alias("\\nu", "nu"), alias("\\omega", "omega"), 
+    alias("\\Omega", "Omega"), alias("\\phi", "phi"), 
+    alias("\\varphi", "varphi"), alias("\\Phi", "Phi"), 
+    alias("\\pi", "pi"), alias("\\Pi", "Pi"), alias("\\psi", "psi"), 
+    alias("\\Psi", "Psi"), alias("\\rho", "rho"), 
+    alias("\\sigma", "sigma"), alias("\\Sigma", "Sigma"), 
+    alias("\\tau", "tau"), alias("\\theta", "theta"), 
+    alias("\\vartheta", "vartheta"), alias("\\Theta", "Theta"), 
+    alias("\\upsilon", "upsilon"), alias("\\xi", "xi"), 
+    alias("\\Xi", "Xi"), alias("\\zeta", "zeta"),
+    alias("\\cdot", "*"), alias("\\ast", "**"), alias("\\star", "***"),
+    alias("\\backslash", "\\\\"), alias("\\setminus", "setminus"), 
+    alias("\\times", "xx"), alias("\\ltimes", "|><"), 
+    alias("\\rtimes", "><|"), alias("\\bowtie", "|><|"), 
+    alias("\\div", "-:"), alias("\\circ", "@"), alias("\\oplus", "o+"), 
+    alias("\\otimes", "ox"), alias("\\odot", "o."), 
+    alias("\\sum", "sum"), alias("\\prod", "prod"), 
+    alias("\\wedge", "^^"), alias("\\bigwedge", "^^^"), 
+    alias("\\vee", "vv"), alias("\\bigvee", "vvv"), 
+    alias("\\cap", "nn"), alias("\\bigcap", "nnn"), 
+    alias("\\cup", "uu"), alias("\\bigcup", "uuu"),
+    alias("\\pm", "+-"), alias("\\mp", "-+"),
+    alias("\\ne", "!="), alias("\\neq", "!="), alias("\\lt", "<"), 
+    alias("\\gt", ">"), alias("\\le", "<="), alias("\\leq", "<="), 
+    alias("\\ge", ">="), alias("\\geq", ">="), alias("\\ll", "<<"), 
+    alias("\\gg", ">>"), alias("\\prec", "-<"), 
+    alias("\\preceq", "-<="), alias("\\succ", ">-"), 
+    alias("\\succeq", ">-="), alias("\\in", "in"), 
+    alias("\\notin", "!in"), alias("\\subset", "sub"), 
+    alias("\\supset", "sup"), alias("\\subseteq", "sube"), 
+    alias("\\supseteq", "supe"), alias("\\equiv", "-="), 
+    alias("\\cong", "~="), alias("\\approx", "~~"), 
+    alias("\\sim", "~"), alias("\\propto", "prop"),
+    alias("\\neg", "not"), alias("\\implies", "=>"), 
+    alias("\\iff", "<=>"), alias("\\forall", "AA"), 
+    alias("\\exists", "EE"), alias("\\bot", "_|_"), 
+    alias("\\top", "TT"), alias("\\vdash", "|--"), 
+    alias("\\models", "|=="),
+    alias("\\int", "int"), alias("\\oint", "oint"), 
+    alias("\\partial", "del"), alias("\\nabla", "grad"), 
+    alias("\\emptyset", "O/"), alias("\\infty", "oo"), 
+    alias("\\aleph", "aleph"), alias("\\angle", "/_"), 
+    alias("\\triangle", "/_\\"), alias("\\prime", "'"), 
+    alias("\\therefore", ":."), alias("\\because", ":'"), 
+    alias("\\ldots", "..."), alias("\\cdots", "cdots"), 
+    alias("\\vdots", "vdots"), alias("\\ddots", "ddots"), 
+    alias("\\quad", "quad"), alias("\\qquad", "qquad"), 
+    alias("\\frown", "frown"), alias("\\diamond", "diamonds"), 
+    alias("\\square", "square"), alias("\\lceil", "|~"), 
+    alias("\\rceil", "~|"), alias("\\lfloor", "|__"), 
+    alias("\\rfloor", "__|"),
+    alias("\\uparrow", "uarr"), alias("\\downarrow", "darr"), 
+    alias("\\rightarrow", "rarr"), alias("\\to", "->"), 
+    alias("\\rightarrowtail", ">->"), 
+    alias("\\twoheadrightarrow", "->>"), 
+    alias("\\twoheadrightarrowtail", ">->>"), alias("\\mapsto", "|->"), 
+    alias("\\leftarrow", "larr"), alias("\\leftrightarrow", "harr"), 
+    alias("\\Rightarrow", "rArr"), alias("\\Leftarrow", "lArr"), 
+    alias("\\Leftrightarrow", "hArr"),
+    alias("\\sqrt", "sqrt"), alias("\\frac", "frac"), 
+    alias("\\stackrel", "stackrel"), alias("\\overset", "overset"), 
+    alias("\\underset", "underset"), alias("\\hat", "hat"), 
+    alias("\\overline", "bar"), alias("\\underline", "ul"), 
+    alias("\\vec", "vec"), alias("\\tilde", "tilde"), 
+    alias("\\dot", "dot"), alias("\\ddot", "ddot"), 
+    alias("\\overbrace", "obrace"), alias("\\underbrace", "ubrace"), 
+    alias("\\overparen", "overarc"), alias("\\cancel", "cancel"), 
+    alias("\\text", "text"), alias("\\mathbf", "bb"), 
+    alias("\\mathbb", "bbb"), alias("\\mathcal", "cc"), 
+    alias("\\mathtt", "tt"), alias("\\mathfrak", "fr"), 
+    alias("\\mathsf", "sf"),
+    alias("\\sin", "sin"), alias("\\cos", "cos"), alias("\\tan", "tan"), 
+    alias("\\sec", "sec"), alias("\\csc", "csc"), alias("\\cot", "cot"), 
+    alias("\\arcsin", "arcsin"), alias("\\arccos", "arccos"), 
+    alias("\\arctan", "arctan"), alias("\\sinh", "sinh"), 
+    alias("\\cosh", "cosh"), alias("\\tanh", "tanh"), 
+    alias("\\exp", "exp"), alias("\\log", "log"), alias("\\ln", "ln"), 
+    alias("\\det", "det"), alias("\\dim", "dim"), alias("\\gcd", "gcd"), 
+    alias("\\lim", "lim"), alias("\\min", "min"), alias("\\max", "max"),
+    alias("\\langle", "(:"), alias("\\rangle", ":)"), 
+    alias("\\{", "{:"), alias("\\}", ":}"), 
+    alias("\\left(", "("), alias("\\left[", "["), 
+    alias("\\left\\{", "{:"), alias("\\left\\langle", "(:"), 
+    alias("\\left|", "|:"), alias("\\left.", "{"),
+    alias("\\right)", ")"), alias("\\right]", "]"), 
+    alias("\\right\\}", ":}"), alias("\\right\\rangle", ":)"), 
+    alias("\\right|", ":|"), alias("\\right.", "}")
+]
+/**
+ * To use the aliases, we need a symbol table that contains them. The function 
+ * below creates a new symbol table by adding symbols to an existing one. The 
+ * symbols in the lists are kept in descending order by their length, so the 
+ * longest matching symbol is still found first. Symbols with the same input as
+ * an added symbol are replaced.
+ */
+function extendTable(table: SymbolTable, syms: Symbol[]): SymbolTable {
+    let res: SymbolTable = { ...table }
+    for (let sym of syms) {
+        let first = sym.input[0]
+        res[first] = [sym, ...(res[first] || []).filter(s => 
+            s.input != sym.input)].sort((a, b) => 
+                b.input.length - a.input.length)
+    }
+    return res
+}
+/**
+ * ## Symbols in Strict Mode
+ * 
+ * When the `strictSpec` option is on, we modify the symbol table to conform to
+ * the AsciiMath specification. Firstly, we remove our matrix brackets and 
+ * separators. The function below creates a new table without the symbols 
+ * given as input strings.
+ */
+function removeSymbols(table: SymbolTable, inputs: string[]): SymbolTable {
+    let res: SymbolTable = { ...table }
+    for (let input of inputs)
+        res[input[0]] = res[input[0]].filter(s => s.input != input)
+    return res
+}
+
+const matrixSymbols = [ "(|", "[|", "{|", "||:", "|::", "|)", "|]", "|}", 
+    ":||", "::|", ";;", ";" ]
+/**
+ * Secondly, we add the symbols that differ from the specification. Curly 
+ * braces are visible and `{:` and `:}` invisible, `<<` and `>>` are angle 
+ * brackets, and the symbols `mlt` and `mgt` are available. Semicolon is a 
+ * plain operator.
+ */
+const specSymbols: Symbol[] = [
+    leftBracket("{", "&#123;"),
+    rightBracket("}", "&#125;"),
+    leftBracket("{:"),
+    rightBracket(":}"),
+    leftBracket("<<", "&#x2329;"),
+    rightBracket(">>", "&#x232A;"),
+    oper("mlt", "&#x226A;"),
+    oper("mgt", "&#x226B;"),
+    oper(";", "&#59;")
+]
+/**
+ * ## Custom Symbols
+ * 
+ * Users can add their own symbols or override the built-in ones with the
+ * `symbols` option. The symbols are given as definition objects described in
+ * the [External API](#external-api) section. The function below converts a 
+ * definition to a symbol using the same helpers as the built-in table. Aliases
+ * are looked up from the table that is being extended, so they can refer to 
+ * TeX aliases and other custom symbols defined before them.
+ */
+function defineSymbol(input: string, def: SymbolDefinition, 
+    table: SymbolTable): Symbol {
+    switch (def.kind) {
+        case "identifier": return ident(input, def.output)
+        case "operator": return def.textual ? 
+            textOper(input, def.output && decodeEntities(def.output)) :
+            oper(input, def.output)
+        case "underover": return underOverOper(input, def.output)
+        case "function": return unary(input, def.name)
+        case "accent": return unaryUnderOver(input, def.position, def.mark)
+        case "surround": return unarySurround(input, def.left, def.right)
+        case "enclose": return unaryEnclose(input, def.notation)
+        case "font": 
+            if (def.table && def.table.length != 52)
+                throw new Error(`Character table of "${input
+                    }" must contain 52 characters`)
+            return unaryFont(input, def.font, def.table)
+        case "unary": return {
+            kind: SymbolKind.Default,
+            input,
+            parser: scanner => def.apply(argParser(scanner))
+        }
+        case "binary": return binary(input, 
+            typeof def.combine == "function" ? def.combine : 
+                combiners[def.combine])
+        case "alias": 
+            let sym = table[def.of[0]]?.find(s => s.input == def.of)
+            if (!sym)
+                throw new Error(`Cannot alias unknown symbol "${def.of}"`)
+            return { ...sym, input }
+    }
+}
+
+const combiners = { fraction, root, overset, underset }
+/**
+ * The definitions are added to the table one by one. This way the longest 
+ * match ordering is maintained by `extendTable`.
+ */
+function defineSymbols(table: SymbolTable, 
+    defs: SymbolDefinitions): SymbolTable {
+    for (let input in defs) {
+        if (!input)
+            throw new Error("Symbol input cannot be empty")
+        table = extendTable(table, [defineSymbol(input, defs[input], table)])
+    }
+    return table
+}
+/**
+ * The tables are created when they are needed for the first time. We cache 
+ * them by the options that affect them. Tables with custom symbols are cached
+ * per definitions object, so using the same object again is cheap. Note that
+ * changes made to the object after it has been used are not noticed.
+ */
+const symbolTables: { [key: string]: SymbolTable } = {}
+const customTables = new WeakMap<SymbolDefinitions, 
+    { [key: string]: SymbolTable }>()
+
+function symbolTable(options: ParseOptions): SymbolTable {
+    let tables = symbolTables
+    if (options.symbols) {
+        tables = customTables.get(options.symbols) || {}
+        customTables.set(options.symbols, tables)
+    }
+    let key = `${!!options.texAliases}-${!!options.strictSpec}`
+    let res = tables[key]
+    if (!res) {
+        res = symbols
+        if (options.strictSpec)
+            res = extendTable(removeSymbols(res, matrixSymbols), specSymbols)
+        if (options.texAliases)
+            res = extendTable(res, texAliases)
+        if (options.symbols)
+            res = defineSymbols(res, options.symbols)
+        tables[key] = res
+    }
+    return res
+}
+/**
+ * ## Disabled Commands
+ * 
+ * Commands can be disabled with the `disabledCommands` option. In safe mode,
+ * `def` and `id` are disabled by default. Macros let a short input expand to
+ * a large output, and ids given by users can clash with the ids of the page
+ * the equation is shown in. A disabled command is replaced by a symbol that 
+ * reports an error. Its arguments are parsed as ordinary expressions.
+ */
+const safeModeDisabled = ["def", "id"]
+
+function disabledCommand(input: string): Symbol {
+    return {
+        kind: SymbolKind.Default,
+        input,
+        parser: scanner => {
+            scanner.report("disabled-command", 
+                `Command "${input}" is not allowed`, 
+                scanner.pos - input.length, scanner.pos)
+            return { type: "error", code: "disabled-command", message: input }
+        }
+    }
+}
+/**
+ * The commands are disabled after the preamble is parsed, so the preamble can
+ * still use them. The restricted tables are cached like the other tables.
+ */
+const restrictedTables = new WeakMap<SymbolTable, 
+    { [key: string]: SymbolTable }>()
+
+function restrictedTable(table: SymbolTable, 
+    options: ParseOptions): SymbolTable {
+    let inputs = options.disabledCommands || 
+        (options.safe ? safeModeDisabled : [])
+    if (!inputs.length)
+        return table
+    let tables = restrictedTables.get(table) || {}
+    restrictedTables.set(table, tables)
+    let key = inputs.join(" ")
+    let res = tables[key]
+    if (!res) {
+        res = extendTable(table, inputs.filter(input => 
+            table[input[0]]?.some(s => s.input == input))
+            .map(disabledCommand))
+        tables[key] = res
+    }
+    return res
+}
+/**
+ * ## MathML Output
+ * 
+ * MathML is generated from the syntax tree by the renderer class below. It 
+ * walks the tree recursively and outputs the corresponding MathML fragment for
+ * each node. The renderer contains the following state:
+ * 
+ * - the flag telling whether punctuation in text is escaped,
+ * - the flag telling whether source positions are added to the elements, 
+ * - the flag telling whether named entities are used, 
+ * - the flag telling whether text is escaped for safe mode,
+ * - the maximum length of the output, and
+ * - stack of character mapping tables currently in effect.
+ * 
+ * The entity caches for numeric and named entities are shared by all 
+ * renderers. They are cleared when they grow too large.
+ */
+const entityCaches = [new Map<string, string>(), new Map<string, string>()]
+const maxCachedEntities = 10000
+
+class MathMLRenderer {
+    private charTables: CharTable[] = []
+    private escapePunctuation: boolean
+    private sourceMap: boolean
+    private namedEntities: boolean
+    private safe: boolean
+    private maxSize: number
+    /**
+     * Constructor initializes the flags.
+     */
+    constructor(escapePunctuation: boolean, sourceMap: boolean, 
+        namedEntities = false, safe = false, maxSize = Infinity) {
+        this.escapePunctuation = escapePunctuation
+        this.sourceMap = sourceMap
+        this.namedEntities = namedEntities
+        this.safe = safe
+        this.maxSize = maxSize
+    }
+    /**
+     * When a command for changing font is encountered, we push a new character
+     * table to the stack.
+     */
+    pushCharTable(table: CharTable) {
+        this.charTables.push(table)
+    }
+    /**
+     * When the scope for the new font closes, we pop the topmost table from the
+     * stack.
+     */
+    popCharTable() {
+        this.charTables.pop()
+    }
+    /**
+     * Return the current character table or `undefined`, if the stack is empty.
+     */
+    charTable(): CharTable | undefined {
+        return this.charTables[this.charTables.length - 1]
+    }
+    /**
+     * Operators and identifiers are output as character entities. ASCII 
+     * letters and digits are kept as is. Other ASCII characters are converted
+     * to decimal entities and the rest to hexadecimal ones. If named entities
+     * are used, characters that have a name are output with it instead. The
+     * same symbols occur again and again, so the results are cached.
+     */
+    entities(value: string): string {
+        let cache = entityCaches[this.namedEntities ? 1 : 0]
+        let res = cache.get(value)
+        if (res == undefined) {
+            res = value.replace(/[^A-Za-z0-9]/gu, ch => {
+                let name = this.namedEntities && namedEntities[ch]
+                if (name)
+                    return `&${name};`
+                let code = ch.codePointAt(0)!
+                return code < 128 ? `&#${code};` : 
+                    `&#x${code.toString(16).toUpperCase().padStart(4, "0")};`
+            })
+            if (cache.size >= maxCachedEntities)
+                cache.clear()
+            cache.set(value, res)
+        }
+        return res
+    }
+    /**
+     * Text strings are output verbatim. If `escapePunctuation` flag is on, we
+     * replace non-alphanumeric characters with entity codes. Whitespace is 
+     * preserved. In safe mode, the characters that have a special meaning in
+     * HTML are always escaped, so text cannot contain markup.
+     */
+    text(value: string): string {
+        return this.escapePunctuation ?
+            value.replace(/[^A-Za-z0-9\s]/gu, ch => {
+                let name = this.namedEntities && namedEntities[ch]
+                return name ? `&${name};` : `&#${ch.codePointAt(0)};`
+            }) :
+            this.safe ? escapeXml(value) : value
+    }
+    /**
+     * If `sourceMap` flag is on, we add the range of input that produced a node
+     * to the element generated for it. The range is stored in the 
+     * `data-src-start` and `data-src-end` attributes. Rows and fonts with a 
+     * character table don't have an element of their own, so their range is 
+     * not shown.
+     */
+    src(node: Node): string {
+        return this.sourceMap && node.start !== undefined ? 
+            ` data-src-start="${node.start}" data-src-end="${node.end}"` : ""
+    }
+    /**
+     * Brackets are rendered as operators unless they are invisible. They are
+     * marked as fences that stretch to the height of their contents. The 
+     * form tells whether the bracket opens or closes the group, since some 
+     * brackets like `|` can do both.
+     */
+    bracket(output: string | undefined, form: "prefix" | "postfix"): string {
+        return output ? /*html*/`<mo fence="true" form="${form
+            }" stretchy="true">${this.entities(output)}</mo>` : ""
+    }
+    /**
+     * The `render` method outputs the MathML for a node. We check the length
+     * of each fragment, so that rendering stops soon after the output grows
+     * too large.
+     */
+    render(node: Node): string {
+        let res = this.renderNode(node)
+        if (res.length > this.maxSize)
+            throw outputLimit(this.maxSize)
+        return res
+    }
+    /**
+     * Identifiers and text are converted using the current character table.
+     */
+    renderNode(node: Node): string {
+        switch (node.type) {
+            case "row":
+                return node.items.map(item => this.render(item)).join("")
+            case "identifier":
+                return /*html*/`<mi${this.src(node)}>${this.entities(
+                    convertText(node.value, this.charTable()))}</mi>`
+            case "number":
+                return /*html*/`<mn${this.src(node)}>${node.value}</mn>`
+            case "text":
+                return /*html*/`<mtext${this.src(node)}>${this.text(
+                    convertText(node.value, this.charTable()))}</mtext>`
+            case "operator":
+                return node.textual ?
+                    /*html*/`<mrow${this.src(node)
+                        }><mspace width="1ex"/><mtext>${node.value
+                        }</mtext><mspace width="1ex"/></mrow>` :
+                    /*html*/`<mo${operatorAttributes(node.value)}${
+                        this.src(node)}>${this.entities(node.value)}</mo>`
+            case "function":
+                return /*html*/`<mrow${this.src(node)}><mo>${
+                    this.entities(node.name)}</mo>${
+                    this.render(node.arg)}</mrow>`
+            case "fraction":
+                return /*html*/`<mfrac${this.src(node)}>${
+                    this.render(node.numerator)}${
+                    this.render(node.denominator)}</mfrac>`
+            case "root":
+                return node.index ?
+                    /*html*/`<mroot${this.src(node)}>${
+                        this.render(node.radicand)}${
+                        this.render(node.index)}</mroot>` :
+                    /*html*/`<msqrt${this.src(node)}>${
+                        this.render(node.radicand)}</msqrt>`
+            case "script":
+                return this.scripts(["msub", "msup", "msubsup"], node, 
+                    node.base, node.sub, node.sup)
+            case "underover":
+                return this.scripts(["munder", "mover", "munderover"], 
+                    node, node.base, node.under, node.over)
+            case "accent": {
+                let tag = node.position == "over" ? "mover" : "munder"
+                return /*html*/`<${tag}${this.src(node)}>${
+                    this.render(node.base)}<mo>${
+                    this.entities(node.mark)}</mo></${tag}>`
+            }
+            case "bracket":
+                return /*html*/`<mrow${this.src(node)}>${
+                    this.bracket(node.left, "prefix")}${
+                    this.render(node.body)}${
+                    this.bracket(node.right, "postfix")}</mrow>`
+            case "matrix":
+                return this.matrix(node)
+            case "font":
+                return this.font(node)
+            case "style":
+                return node.attribute == "color" ?
+                    /*html*/`<mstyle mathcolor="${node.value}"${
+                        this.src(node)}>${
+                        this.render(node.arg)}</mstyle>` :
+                    /*html*/`<mrow ${node.attribute}="${node.value}"${
+                        this.src(node)}>${
+                        this.render(node.arg)}</mrow>`
+            case "enclose":
+                return /*html*/`<menclose notation="${node.notation}"${
+                    this.src(node)}>${
+                    this.render(node.arg)}</menclose>`
+            case "error":
+                return /*html*/`<merror${this.src(node)}><mtext>${
+                    this.safe ? escapeXml(node.message) : node.message
+                    }</mtext></merror>`
+        }
+    }
+    /**
+     * Subscripts and superscripts as well as under and over scripts are
+     * rendered with the same method. We just need to choose the correct tag
+     * depending on which scripts are present.
+     */
+    scripts(tags: [string, string, string], node: Node, base: Node, 
+        lower?: Node, upper?: Node): string {
+        let res = this.render(base)
+        let src = this.src(node)
+        if (lower && upper)
+            return /*html*/`<${tags[2]}${src}>${res}${this.render(lower)}${
+                this.render(upper)}</${tags[2]}>`
+        if (lower)
+            return /*html*/`<${tags[0]}${src}>${res}${this.render(lower)}</${
+                tags[0]}>`
+        if (upper)
+            return /*html*/`<${tags[1]}${src}>${res}${this.render(upper)}</${
+                tags[1]}>`
+        return res
+    }
+    /**
+     * Matrices are rendered as tables. Cells are enclosed in `<mtd>` elements
+     * and rows in `<mtr>` elements. If either of the brackets is visible, we 
+     * wrap the table together with the brackets inside `<mrow>`.
+     */
+    matrix(node: MatrixNode): string {
+        let rows = node.rows.map(row => /*html*/`<mtr>${row.map(cell => 
+            /*html*/`<mtd>${this.render(cell)}</mtd>`).join("")}</mtr>`)
+            .join("")
+        let src = this.src(node)
+        return node.left || node.right ?
+            /*html*/`<mrow${src}>${this.bracket(node.left, "prefix")
+                }<mtable>${rows}</mtable>${this.bracket(node.right, "postfix")
+                }</mrow>` :
+            /*html*/`<mtable${src}>${rows}</mtable>`
+    }
+    /**
+     * Fonts with a character table are rendered by switching the table on 
+     * while the argument is rendered. Other fonts are set with CSS styles.
+     */
+    font(node: FontNode): string {
+        let table = node.table || fontTables[node.font]
+        if (table) {
+            this.pushCharTable(table)
+            let res = this.render(node.arg)
+            this.popCharTable()
+            return res
+        }
+        return /*html*/`<mstyle style="${fontStyles[node.font]}"${
+            this.src(node)}>${this.render(node.arg)}</mstyle>`
+    }
+}
+/**
+ * Some operators get attributes that tell how they are laid out, so that 
+ * browsers render them correctly even if their operator dictionary does not
+ * contain the character. Big operators like `sum` are drawn larger in 
+ * display style. Their limits are moved to the script positions, when the
+ * operator is not in display style, for example inside a fraction. Integrals
+ * are large too, but their limits are always shown as scripts. Bars that
+ * are not part of a bracket pair can still be used as delimiters, so they
+ * stretch like brackets.
+ */
+const largeOperators = /^[∏∐∑⋀-⋃⨀-⨊]$/
+const integrals = /^[∫-∳⨋-⨜]$/
+const bars = /^[|‖∥]$/
+
+function operatorAttributes(value: string): string {
+    return largeOperators.test(value) ? 
+        ' form="prefix" largeop="true" movablelimits="true"' :
+        integrals.test(value) ? ' form="prefix" largeop="true"' :
+        bars.test(value) ? ' fence="true" stretchy="true"' : ""
+}
+/**
+ * Fonts without a character table are rendered with the styles below.
+ */
+const fontStyles: { [font in Font]?: string } = {
+    "bold": "font-weight: bold",
+    "sans-serif": "font-family: var(--sans-font), sans-serif",
+    "monospace": "font-family: var(--mono-font), monospace"
+}
+/**
+ * Named entities are defined in HTML, but not in XML. So, they should be used
+ * only when the output is embedded in an HTML document. The table below 
+ * contains the names for the characters that appear in the symbol table. 
+ * Characters without a name are output as numeric entities.
+ */
+const namedEntities: { [char: string]: string } = {
+    "!": "excl", "\"": "quot", "#": "num", "$": "dollar", "%": "percnt", 
+    "&": "amp", "'": "apos", "(": "lpar", ")": "rpar", "*": "ast", 
+    "+": "plus", ",": "comma", ".": "period", "/": "sol", ":": "colon", 
+    ";": "semi", "<": "lt", "=": "equals", ">": "gt", "?": "quest", 
+    "@": "commat", "[": "lsqb", "\\": "bsol", "]": "rsqb", "^": "Hat", 
+    "_": "lowbar", "`": "grave", "{": "lcub", "|": "vert", "}": "rcub",
+    "\u00A0": "nbsp", "\u00AC": "not", "\u00AF": "macr", "\u00B1": "pm", 
+    "\u00D7": "times", "\u00F7": "divide",
+    "\u0393": "Gamma", "\u0394": "Delta", "\u0398": "Theta", 
+    "\u039B": "Lambda", "\u039E": "Xi", "\u03A0": "Pi", "\u03A3": "Sigma", 
+    "\u03A6": "Phi", "\u03A8": "Psi", "\u03A9": "Omega", "\u03B1": "alpha",
+    "\u03B2": "beta", "\u03B3": "gamma", "\u03B4": "delta", 
+    "\u03B5": "epsilon", "\u03B6": "zeta", "\u03B7": "eta", 
+    "\u03B8": "theta", "\u03B9": "iota", "\u03BA": "kappa", 
+    "\u03BB": "lambda", "\u03BC": "mu", "\u03BD": "nu", "\u03BE": "xi", 
+    "\u03C0": "pi", "\u03C1": "rho", "\u03C3": "sigma", "\u03C4": "tau",
+    "\u03C5": "upsilon", "\u03C6": "phi", "\u03C7": "chi", "\u03C8": "psi",
+    "\u03C9": "omega", "\u03D1": "thetasym", "\u03D5": "phiv",
+    "\u2032": "prime", "\u2102": "Copf", "\u2115": "Nopf", "\u211A": "Qopf",
+    "\u211D": "Ropf", "\u2124": "Zopf", "\u2135": "aleph", "\u2190": "larr",
+    "\u2191": "uarr", "\u2192": "rarr", "\u2193": "darr", "\u2194": "harr",
+    "\u21A0": "Rarr", "\u21A3": "rarrtl", "\u21A6": "map", "\u21D0": "lArr",
+    "\u21D2": "rArr", "\u21D4": "hArr", "\u2200": "forall", 
+    "\u2202": "part", "\u2203": "exist", "\u2205": "empty", 
+    "\u2207": "nabla", "\u2208": "isin", "\u2209": "notin", 
+    "\u220F": "prod", "\u2211": "sum", "\u2212": "minus", "\u2213": "mp",
+    "\u2217": "lowast", "\u2218": "compfn", "\u221D": "prop", 
+    "\u221E": "infin", "\u2220": "ang", "\u2225": "par", "\u2227": "and",
+    "\u2228": "or", "\u2229": "cap", "\u222A": "cup", "\u222B": "int",
+    "\u222E": "conint", "\u2234": "there4", "\u2235": "because", 
+    "\u223C": "sim", "\u2245": "cong", "\u2248": "asymp", "\u2260": "ne",
+    "\u2261": "equiv", "\u2264": "le", "\u2265": "ge", "\u226A": "ll",
+    "\u226B": "gg", "\u227A": "pr", "\u227B": "sc", "\u2282": "sub",
+    "\u2283": "sup", "\u2286": "sube", "\u2287": "supe", "\u2295": "oplus",
+    "\u2299": "odot", "\u22A2": "vdash", "\u22A4": "top", "\u22A5": "perp",
+    "\u22A8": "vDash", "\u22C0": "xwedge", "\u22C1": "xvee", 
+    "\u22C2": "xcap", "\u22C3": "xcup", "\u22C4": "diam", "\u22C5": "sdot",
+    "\u22C6": "Star", "\u22C8": "bowtie", "\u22C9": "ltimes", 
+    "\u22CA": "rtimes", "\u22EE": "vellip", "\u22EF": "ctdot", 
+    "\u22F1": "dtdot", "\u2308": "lceil", "\u2309": "rceil", 
+    "\u230A": "lfloor", "\u230B": "rfloor", "\u2322": "frown", 
+    "\u23DC": "OverParenthesis", "\u23DE": "OverBrace", 
+    "\u23DF": "UnderBrace", "\u25A1": "square", "\u25B3": "xutri",
+    "\u2916": "Rarrtl", "\u2AAF": "pre", "\u2AB0": "sce"
+}
 /**
  * ## External API
  * 
- * None of the types and functions defined above are exported outside this 
- * module. The only function we expose is below. It takes an AsciiMath equation
- * as the input string and returns the corresponding MathML as string. The other
- * parameter controls whether we set the display style of the equation to 
- * `block` or `inline`.
+ * Options that affect how the input is parsed are given in the object below.
+ * The `texAliases` option turns on the TeX style alternatives for symbols. The
+ * `strictSpec` option makes the parser follow the AsciiMath specification 
+ * instead of our modified syntax. The `symbols` option adds custom symbols to
+ * the symbol table, as described below. The `preamble` option contains macro 
+ * definitions shared by all equations, for example 
+ * `"def(R2)(RR^2) def(pdv)(2)(del #1 / del #2)"`.
+ * 
+ * The `safe` option should be set when equations come from untrusted users. 
+ * It escapes all text in the output, checks the values of `color`, `class`, 
+ * and `id`, and disables the commands listed in `disabledCommands`. By 
+ * default, those are `def` and `id` in safe mode and none otherwise.
+ * 
+ * The `maxInputLength` and `maxNesting` options limit the length of the input
+ * and how deeply brackets, commands, and scripts can be nested. Input that 
+ * exceeds a limit is rendered as a single error. The nesting depth is limited
+ * to 100 levels by default, while the length is not limited.
+ */
+//#region Parse Options
+export interface ParseOptions {
+    texAliases?: boolean
+    strictSpec?: boolean
+    symbols?: SymbolDefinitions
+    preamble?: string
+    safe?: boolean
+    disabledCommands?: string[]
+    maxInputLength?: number
+    maxNesting?: number
+}
+//#endregion
+/**
+ * Custom symbols are defined in an object whose keys are the input strings and
+ * values describe what the symbols produce. Outputs can be given either as 
+ * plain characters or as character entities like in the built-in table. The 
+ * kinds of symbols are:
+ * 
+ * - `identifier` renders the output (or the input, if output is missing) as 
+ *   an identifier,
+ * - `operator` renders the output as an operator, optionally as normal text,
+ * - `underover` is an operator which takes limits under and over it, like 
+ *   `sum`,
+ * - `function` is applied to its argument like `sin`,
+ * - `accent` puts a mark under or over its argument like `hat`,
+ * - `surround` puts brackets around its argument like `abs`,
+ * - `enclose` draws a notation of the MathML `<menclose>` element around its 
+ *   argument like `cancel`,
+ * - `font` changes the font of its argument like `bbb`, optionally with a 
+ *   custom character table,
+ * - `unary` and `binary` build a syntax tree node from one or two arguments. 
+ *   Binary commands can use the built-in layouts of `frac`, `root`, `overset`,
+ *   and `underset`, or
+ * - `alias` is a copy of an existing symbol with a different input.
+ * 
+ * Custom symbols override built-in symbols with the same input. Otherwise, 
+ * the longest matching symbol is still selected when reading the input.
+ */
+//#region Custom Symbols
+export type SymbolDefinition = 
+    { kind: "identifier", output?: string } |
+    { kind: "operator", output: string, textual?: boolean } |
+    { kind: "underover", output: string } |
+    { kind: "function", name?: string } |
+    { kind: "accent", position: "under" | "over", mark: string } |
+    { kind: "surround", left: string, right: string } |
+    { kind: "enclose", notation: string } |
+    { kind: "font", font: Font, table?: string[] } |
+    { kind: "unary", apply: (arg: Node) => Node } |
+    { kind: "binary", combine: "fraction" | "root" | "overset" | "underset" |
+        ((arg1: Node, arg2: Node) => Node) } |
+    { kind: "alias", of: string }
+
+export interface SymbolDefinitions {
+    [input: string]: SymbolDefinition
+}
+//#endregion
+/**
+ * The syntax tree types are exported from this module, and so is the function 
+ * below. It takes an AsciiMath equation as the input string and returns its 
+ * syntax tree. The root of the tree is always a row node. If the `diagnostics`
+ * array is given, the problems found in the input are added to it. Problems 
+ * in the preamble are reported at the start of the input.
+ */
+//#region Syntax Tree API
+export function parseAsciiMath(input: string, 
+    diagnostics?: Diagnostic[], options: ParseOptions = {}): RowNode
+//#endregion
+{
+    try {
+        if (options.maxInputLength != undefined && 
+            input.length > options.maxInputLength)
+            throw new LimitError(
+                `Input is longer than ${options.maxInputLength} characters`)
+        let table = symbolTable(options)
+        let problems: Diagnostic[] = []
+        if (options.preamble) {
+            let preamble = new Scanner(options.preamble, table, options)
+            recoveringParser(preamble, topStops)
+            table = preamble.symbols
+            problems = preamble.diagnostics.map(d => ({ ...d, 
+                message: `In preamble: ${d.message}`, start: 0, end: 0 }))
+        }
+        table = restrictedTable(table, options)
+        let scanner = new Scanner(input, table, options)
+        let tree = recoveringParser(scanner, topStops)
+        if (diagnostics)
+            diagnostics.push(...problems, ...scanner.diagnostics)
+        return tree
+    }
+    catch (e) {
+        return limitExceeded(e, input, diagnostics)
+    }
+}
+/**
+ * The main function of the library takes an AsciiMath equation as the input 
+ * string and returns the corresponding MathML as string. The options 
+ * controlling the output can be given either as positional parameters or in 
+ * an options object. The `inline` parameter controls whether we set the 
+ * display style of the equation to `block` or `inline`. If `sourceMap` is set,
+ * elements contain the range of input they were generated from. The last 
+ * positional parameter contains the parse options.
+ * 
+ * The options object contains the parse options and the output options listed
+ * below. Since the output is used in HTML pages, EPUB books, and XML 
+ * documents, its shape can be adjusted:
+ * 
+ * - `xmlns` adds the MathML namespace to the `<math>` element, which is 
+ *   required in XML documents,
+ * - `displayStyle` wraps the equation in `<mstyle displaystyle="true">`, which 
+ *   is the default,
+ * - `alttext` sets the alternative text of the equation,
+ * - `class` and `id` set the attributes of the `<math>` element, and
+ * - `entities` chooses between `numeric` (default) and `named` character 
+ *   entities. Named entities are valid only in HTML, and
+ * - `speech` puts the spoken text of the equation in the `aria-label` or 
+ *   `alttext` attribute. An explicitly given `alttext` is not replaced, 
+ * - `semantics` wraps the equation in a `<semantics>` element with the 
+ *   original input as an `application/x-asciimath` annotation, and
+ * - `latexAnnotation` adds the LaTeX version of the equation as an 
+ *   `application/x-tex` annotation. It implies `semantics`, and
+ * - `content` outputs [Content MathML](content.html) instead of presentation
+ *   markup. The presentation options are ignored in that case, and
+ * - `maxOutputSize` limits the length of the MathML. Larger output is 
+ *   replaced with an error.
  */
 //#region Public API
-export function asciiToMathML(input: string, inline = false, 
-    escapePunctuation = false): string 
+export interface OutputOptions {
+    inline?: boolean
+    escapePunctuation?: boolean
+    sourceMap?: boolean
+    xmlns?: boolean
+    displayStyle?: boolean
+    alttext?: string
+    class?: string
+    id?: string
+    entities?: "numeric" | "named"
+    speech?: "aria-label" | "alttext"
+    semantics?: boolean
+    latexAnnotation?: boolean
+    content?: boolean
+    maxOutputSize?: number
+}
+
+export interface MathMLOptions extends ParseOptions, OutputOptions {}
+
+export function asciiToMathML(input: string, options?: MathMLOptions): string
+export function asciiToMathML(input: string, inline?: boolean, 
+    escapePunctuation?: boolean, sourceMap?: boolean, 
+    options?: ParseOptions): string 
+//#endregion
+export function asciiToMathML(input: string, 
+    inline: boolean | MathMLOptions = false, escapePunctuation = false, 
+    sourceMap = false, options: ParseOptions = {}): string {
+    return convertAsciiMath(input, mathMLOptions(inline, escapePunctuation, 
+        sourceMap, options)).mathml
+}
+/**
+ * The positional parameters are converted to an options object by the helper
+ * below.
+ */
+function mathMLOptions(inline: boolean | MathMLOptions, 
+    escapePunctuation: boolean, sourceMap: boolean, 
+    options: ParseOptions): MathMLOptions {
+    return typeof inline == "object" ? inline : 
+        { ...options, inline, escapePunctuation, sourceMap }
+}
+/**
+ * If you need to know whether the conversion succeeded, use the function below
+ * instead. It returns the MathML together with the list of diagnostics. The
+ * list is empty if no problems were found. It accepts the same parameters as
+ * `asciiToMathML`.
+ */
+//#region Conversion API
+export interface ConversionResult {
+    mathml: string
+    diagnostics: Diagnostic[]
+}
+
+export function convertAsciiMath(input: string, 
+    options?: MathMLOptions): ConversionResult
+export function convertAsciiMath(input: string, inline?: boolean, 
+    escapePunctuation?: boolean, sourceMap?: boolean, 
+    options?: ParseOptions): ConversionResult
+//#endregion
+export function convertAsciiMath(input: string, 
+    inline: boolean | MathMLOptions = false, escapePunctuation = false, 
+    sourceMap = false, options: ParseOptions = {}): ConversionResult {
+    let opts = mathMLOptions(inline, escapePunctuation, sourceMap, options)
+    let diagnostics: Diagnostic[] = []
+    let tree = parseAsciiMath(input, diagnostics, opts)
+    let mathml: string
+    try {
+        mathml = renderMathML(tree, input, opts)
+    }
+    catch (e) {
+        mathml = renderMathML(limitExceeded(e, input, diagnostics), input,
+            { ...opts, maxOutputSize: undefined })
+    }
+    return { mathml, diagnostics }
+}
+/**
+ * The `<math>` element is generated from the syntax tree by the function 
+ * below. If the MathML grows larger than `maxOutputSize`, the renderer stops
+ * and the equation is replaced with an error. Macros can repeat their 
+ * arguments, so even a short input can produce a lot of output.
+ */
+function renderMathML(tree: RowNode, input: string, 
+    opts: MathMLOptions): string {
+    let annotated = opts.semantics || opts.latexAnnotation
+    let maxSize = opts.maxOutputSize ?? Infinity
+    let body: string
+    if (opts.content)
+        body = treeToContentMathML(tree)
+    else {
+        let renderer = new MathMLRenderer(!!opts.escapePunctuation, 
+            !!opts.sourceMap, opts.entities == "named", !!opts.safe, maxSize)
+        body = renderer.render(tree)
+        if (opts.displayStyle != false)
+            body = /*html*/`<mstyle displaystyle="true">${body}</mstyle>`
+        else if (annotated)
+            body = /*html*/`<mrow>${body}</mrow>`
+    }
+    if (annotated)
+        body = annotate(body, input, opts.latexAnnotation ? 
+            treeToLaTeX(tree) : undefined)
+    if (opts.speech)
+        opts = { [opts.speech]: treeToSpeech(tree), ...opts }
+    let mathml = /*html*/`<math${mathAttributes(opts)}>${body}</math>`
+    if (mathml.length > maxSize)
+        throw outputLimit(maxSize)
+    return mathml
+}
+
+function outputLimit(maxSize: number): LimitError {
+    return new LimitError(`Output is longer than ${maxSize} characters`)
+}
+/**
+ * The `<semantics>` element contains exactly one presentation element followed
+ * by the annotations. That's why the equation is wrapped in `<mrow>` above, if
+ * it's not wrapped in `<mstyle>`. Annotations are not rendered, but their 
+ * contents must be escaped.
+ */
+function annotate(body: string, input: string, latex?: string): string {
+    let res = /*html*/`<semantics>${body}<annotation encoding="${
+        asciiMathMimeType}">${escapeXml(input)}</annotation>`
+    if (latex != undefined)
+        res += /*html*/`<annotation encoding="application/x-tex">${
+            escapeXml(latex)}</annotation>`
+    return res + "</semantics>"
+}
+
+const asciiMathMimeType = "application/x-asciimath"
+/**
+ * The characters that have a special meaning in XML are escaped with numeric
+ * entities.
+ */
+function escapeXml(text: string): string {
+    return text.replace(/[&<>"]/g, ch => `&#${ch.charCodeAt(0)};`)
+}
+/**
+ * The attributes of the `<math>` element are generated by the function below.
+ * The values given by the user are escaped.
+ */
+const mathMLNamespace = "http://www.w3.org/1998/Math/MathML"
+
+function mathAttributes(opts: MathMLOptions & 
+    { "aria-label"?: string }): string {
+    let attrs: [string, string | undefined][] = [
+        ["xmlns", opts.xmlns ? mathMLNamespace : undefined],
+        ["display", opts.inline ? "inline" : "block"],
+        ["class", opts.class],
+        ["id", opts.id],
+        ["alttext", opts.alttext],
+        ["aria-label", opts["aria-label"]]
+    ]
+    return attrs.map(([name, value]) => value == undefined ? "" :
+        ` ${name}="${escapeXml(value)}"`).join("")
+}
+/**
+ * Equations can be converted also to LaTeX. The conversion is implemented in 
+ * a [separate module](latex.html). The functions below use the same parser as
+ * the MathML conversion and render the syntax tree as LaTeX. The second one 
+ * can be used to render a tree that was parsed earlier.
+ */
+import { treeToLaTeX } from "./latex"
+//#region LaTeX API
+export function asciiToLaTeX(input: string, 
+    options: ParseOptions = {}): string
+//#endregion
+{
+    return treeToLaTeX(parseAsciiMath(input, undefined, options))
+}
+
+export { treeToLaTeX }
+/**
+ * Equations can be read aloud as well. The [spoken text](speech.html) is 
+ * generated from the syntax tree in English. Again, the second function 
+ * converts a tree that was parsed earlier.
+ */
+import { treeToSpeech } from "./speech"
+//#region Speech API
+export function asciiToSpeech(input: string, 
+    options: ParseOptions = {}): string
+//#endregion
+{
+    return treeToSpeech(parseAsciiMath(input, undefined, options))
+}
+
+export { treeToSpeech }
+/**
+ * Where MathML can't be used, equations can be rendered as 
+ * [plain text](unicode.html). The text uses Unicode characters for scripts, 
+ * accents, roots, and fonts when possible.
+ */
+import { treeToUnicode } from "./unicode"
+//#region Unicode API
+export function asciiToUnicode(input: string, 
+    options: ParseOptions = {}): string
+//#endregion
+{
+    return treeToUnicode(parseAsciiMath(input, undefined, options))
+}
+
+export { treeToUnicode }
+/**
+ * The Content MathML output is available for trees as well. The 
+ * `content` option of `asciiToMathML` uses the function below.
+ */
+import { treeToContentMathML } from "./content"
+
+export { treeToContentMathML }
+/**
+ * Expressions can also be [evaluated numerically](evaluate.html). Values of 
+ * the variables are given in the scope object. Parse errors, unknown 
+ * identifiers, and constructs that have no numeric value are thrown as 
+ * `EvaluationError` exceptions.
+ */
+import { evaluateTree, EvaluationError, Scope } from "./evaluate"
+//#region Evaluation API
+export function evaluate(input: string, scope: Scope = {}, 
+    options: ParseOptions = {}): number
+//#endregion
+{
+    let diagnostics: Diagnostic[] = []
+    let tree = parseAsciiMath(input, diagnostics, options)
+    let error = diagnostics.find(d => d.severity == "error")
+    if (error)
+        throw new EvaluationError(error.message, error)
+    return evaluateTree(tree, scope)
+}
+
+export { evaluateTree, EvaluationError, Scope }
+/**
+ * The [formatter](format.html) prints AsciiMath input in a canonical form with
+ * consistent spacing and preferred symbol names. It's meant for keeping 
+ * equation sources tidy. Input that contains errors or is not parsed to the
+ * end is returned unchanged. The problems are added to the `diagnostics` 
+ * list, if one is given.
+ */
+import { formatTree } from "./format"
+//#region Formatter API
+export function formatAsciiMath(input: string, options: ParseOptions = {},
+    diagnostics?: Diagnostic[]): string
 //#endregion
 {
-    let scanner = new Scanner(input, symbols, escapePunctuation)
-    return /*html*/`<math display="${inline ? 'inline' : 'block'
-        }"><mstyle displaystyle="true">${exprParser(scanner)}</mstyle></math>`
-}
\ No newline at end of file
+    let problems: Diagnostic[] = []
+    let tree = parseAsciiMath(input, problems, options)
+    if (diagnostics)
+        diagnostics.push(...problems)
+    if (problems.some(d => d.severity == "error") || 
+        input.slice(tree.end).trim())
+        return input
+    let table = symbolTable(options)
+    let pairs = symbolPairs(table)
+    return formatTree(tree, input, {
+        preferred: text => preferredSpelling(table, text),
+        merges: (before, after) => 
+            pairs.has(before[before.length - 1] + after[0]) ||
+            /[\d.]$/.test(before) && /^[\d.]/.test(after) ||
+            /\\[A-Za-z]*$/.test(before) && /^[A-Za-z]/.test(after)
+    })
+}
+/**
+ * A symbol gets its preferred spelling only if neither spelling has been 
+ * redefined by the options. 
+ */
+function preferredSpelling(table: SymbolTable, input: string): string {
+    let pref = preferredSpellings[input]
+    while (pref && isBuiltin(table, input) && isBuiltin(table, pref)) {
+        input = pref
+        pref = preferredSpellings[input]
+    }
+    return input
+}
+
+function isBuiltin(table: SymbolTable, input: string): boolean {
+    let sym = table[input[0]]?.find(s => s.input == input)
+    return !!sym && (sym == symbols[input[0]]?.find(s => s.input == input) ||
+        texAliases.includes(sym))
+}
+/**
+ * Two pieces of text may merge into another symbol, if the last character of
+ * the first one and the first character of the second one appear next to 
+ * each other in some symbol. We collect these pairs of characters from the 
+ * symbol table. Numbers and TeX commands are also continued by the digits
+ * and letters that follow them.
+ */
+const pairTables = new WeakMap<SymbolTable, Set<string>>()
+
+function symbolPairs(table: SymbolTable): Set<string> {
+    let res = pairTables.get(table)
+    if (!res) {
+        res = new Set()
+        for (let first in table)
+            for (let sym of table[first])
+                for (let i = 1; i < sym.input.length; ++i)
+                    res.add(sym.input.slice(i - 1, i + 1))
+        pairTables.set(table, res)
+    }
+    return res
+}
+/**
+ * MathML can be [converted back](mathml.html) to AsciiMath. The reverse table
+ * used by the converter is built from the default symbol table the first time
+ * it's needed. Symbols with a preferred spelling are left out, as well as 
+ * symbols that are filed under a wrong first character, since the scanner 
+ * can't find them. The output is formatted, so it uses the preferred 
+ * spellings of symbols.
+ */
+import { mathMLToSource, ReverseTable } from "./mathml"
+//#region MathML Import API
+export function mathMLToAscii(mathml: string): string
+//#endregion
+{
+    return formatAsciiMath(mathMLToSource(mathml, reverseTable()))
+}
+
+let reverse: ReverseTable | undefined
+
+function reverseTable(): ReverseTable {
+    if (reverse)
+        return reverse
+    let res: ReverseTable = { identifiers: {}, operators: {}, functions: {},
+        accents: {}, fonts: {}, encloses: {}, leftBrackets: {}, 
+        rightBrackets: {}, leftMatrices: {}, rightMatrices: {}, 
+        surrounds: {}, underOvers: [], entities: {} }
+    for (let first in symbols)
+        for (let sym of symbols[first]) {
+            let input = sym.input
+            if (preferredSpellings[input] || input[0] != first)
+                continue
+            switch (sym.kind) {
+                case SymbolKind.LeftBracket:
+                    if (sym.output)
+                        addReverse(res.leftBrackets, sym.output, input)
+                    break
+                case SymbolKind.RightBracket:
+                    if (sym.output)
+                        addReverse(res.rightBrackets, sym.output, input)
+                    break
+                case SymbolKind.MatrixLeftBracket:
+                    addReverse(res.leftMatrices, sym.output ?? "", input)
+                    break
+                case SymbolKind.MatrixRightBracket:
+                    addReverse(res.rightMatrices, sym.output ?? "", input)
+                    break
+                case SymbolKind.UnderOver:
+                    res.underOvers.push(input)
+                case SymbolKind.Default:
+                    addReverseNode(res, symbolNode(sym), input)
+            }
+        }
+    for (let char in namedEntities)
+        res.entities[namedEntities[char]] = char
+    return reverse = res
+}
+/**
+ * The node that a symbol produces tells which table the symbol belongs to.
+ * We get the node by running the parser of the symbol on its own input.
+ * Binary operators like `/` produce empty operators, which are skipped.
+ */
+function symbolNode(sym: Symbol): Node {
+    let scanner = new Scanner(sym.input, symbols, {})
+    scanner.nextSymbol()
+    return sym.parser(scanner)
+}
+
+function addReverseNode(table: ReverseTable, node: Node, input: string) {
+    switch (node.type) {
+        case "identifier":
+            return addReverse(table.identifiers, node.value, input)
+        case "operator":
+            if (node.value)
+                addReverse(table.operators, node.value, input)
+            return
+        case "function":
+            return addReverse(table.functions, node.name, input)
+        case "accent":
+            return addReverse(table.accents, node.position + node.mark, input)
+        case "font":
+            return addReverse(table.fonts, node.font, input)
+        case "enclose":
+            return addReverse(table.encloses, node.notation, input)
+        case "bracket":
+            if (node.left && node.right)
+                addReverse(table.surrounds, node.left + node.right, input)
+    }
+}
+/**
+ * When several symbols have the same output, the shortest one is chosen. 
+ * Symbolic inputs like `<=` are preferred over words like `le` of the same 
+ * length.
+ */
+function addReverse(dict: { [output: string]: string }, output: string, 
+    input: string) {
+    let prev = dict[output]
+    if (prev == undefined || input.length < prev.length || 
+        input.length == prev.length && /^[A-Za-z]/.test(prev) &&
+        !/^[A-Za-z]/.test(input))
+        dict[output] = input
+}
+/**
+ * Equations embedded in HTML or Markdown documents can be rendered with a 
+ * single call. The [document processor](document.html) finds the equations
+ * by their delimiters and replaces them with MathML. The delimiters are 
+ * given in the `delimiters` option; the other options are passed to 
+ * `asciiToMathML`. The `inline` option is set by each delimiter.
+ */
+import { replaceMath, Delimiter, defaultDelimiters } from "./document"
+//#region Document API
+export interface DocumentOptions extends MathMLOptions {
+    delimiters?: Delimiter[]
+}
+
+export function renderMathInText(text: string, 
+    options: DocumentOptions = {}): string
+//#endregion
+{
+    let { delimiters = defaultDelimiters, ...opts } = options
+    return replaceMath(text, delimiters, (math, inline) => 
+        asciiToMathML(math, { ...opts, inline }))
+}
+
+export { Delimiter, defaultDelimiters }
+/**
+ * If the same options are used repeatedly, it's handy to create a converter 
+ * object which remembers them. The symbol table for the options is built when
+ * the converter is created. The output options given to the converter are the
+ * defaults which can be overridden per conversion.
+ */
+//#region Converter API
+export interface Converter {
+    parse(input: string, diagnostics?: Diagnostic[]): RowNode
+    convert(input: string, output?: OutputOptions): ConversionResult
+    toMathML(input: string, output?: OutputOptions): string
+    toLaTeX(input: string): string
+    toSpeech(input: string): string
+    toUnicode(input: string): string
+}
+
+export function createConverter(options: MathMLOptions = {}): Converter
+//#endregion
+{
+    options = { ...options }
+    symbolTable(options)
+    return {
+        parse: (input, diagnostics) => 
+            parseAsciiMath(input, diagnostics, options),
+        convert: (input, output) => 
+            convertAsciiMath(input, { ...options, ...output }),
+        toMathML: (input, output) => 
+            asciiToMathML(input, { ...options, ...output }),
+        toLaTeX: input => asciiToLaTeX(input, options),
+        toSpeech: input => asciiToSpeech(input, options),
+        toUnicode: input => asciiToUnicode(input, options)
+    }
+}
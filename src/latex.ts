@@ -0,0 +1,332 @@
+/**
+ * # LaTeX Output
+ *
+ * Besides MathML, equations can be converted to [LaTeX][]. This is useful when
+ * the same equations are published both in web pages and in PDF documents. The
+ * conversion uses the same scanner, symbol table, and grammar as the MathML
+ * output. Only the last step, rendering the syntax tree, is different.
+ *
+ * The generated LaTeX uses commands from the standard `amsmath` and `amssymb`
+ * packages. Additionally, `color` requires the `xcolor` package and `cancel`
+ * and the other strike-outs the `cancel` package.
+ *
+ * [LaTeX]: https://en.wikibooks.org/wiki/LaTeX/Mathematics
+ */
+import { Node, MatrixNode, FontNode, Font } from "."
+/**
+ * ## Symbol Commands
+ *
+ * Identifiers and operators in the syntax tree contain plain unicode
+ * characters. The table below maps them to LaTeX commands. Characters that
+ * are not found in the table are output as they are.
+ */
+const commands: { [output: string]: string } = {
+    "α": "\\alpha", "β": "\\beta", "γ": "\\gamma",
+    "Γ": "\\Gamma", "δ": "\\delta", "Δ": "\\Delta",
+    "ε": "\\epsilon", "ɛ": "\\varepsilon", "ζ": "\\zeta",
+    "η": "\\eta", "θ": "\\theta", "Θ": "\\Theta",
+    "ϑ": "\\vartheta", "ι": "\\iota", "κ": "\\kappa",
+    "λ": "\\lambda", "Λ": "\\Lambda", "μ": "\\mu",
+    "ν": "\\nu", "ξ": "\\xi", "Ξ": "\\Xi", "π": "\\pi",
+    "Π": "\\Pi", "ρ": "\\rho", "σ": "\\sigma",
+    "Σ": "\\Sigma", "τ": "\\tau", "υ": "\\upsilon",
+    "ϕ": "\\phi", "Φ": "\\Phi", "φ": "\\varphi",
+    "χ": "\\chi", "ψ": "\\psi", "Ψ": "\\Psi",
+    "ω": "\\omega", "Ω": "\\Omega",
+    "ℵ": "\\aleph", "∀": "\\forall", "∃": "\\exists",
+    "⋯": "\\cdots", "⋱": "\\ddots", "⋮": "\\vdots",
+    "...": "\\ldots", "ℂ": "\\mathbb{C}", "ℕ": "\\mathbb{N}",
+    "ℚ": "\\mathbb{Q}", "ℝ": "\\mathbb{R}", "ℤ": "\\mathbb{Z}",
+    "⋄": "\\diamond", "□": "\\square", "⌢": "\\frown",
+    "∂": "\\partial", "∇": "\\nabla", "∞": "\\infty",
+    "∅": "\\emptyset", "∝": "\\propto", "⊤": "\\top",
+    "⊥": "\\bot", "∠": "\\angle", "△": "\\triangle",
+    "↓": "\\downarrow", "↑": "\\uparrow", "←": "\\leftarrow",
+    "→": "\\rightarrow", "↔": "\\leftrightarrow",
+    "⇐": "\\Leftarrow", "⇒": "\\Rightarrow",
+    "⇔": "\\Leftrightarrow", "↠": "\\twoheadrightarrow",
+    "↣": "\\rightarrowtail", "↦": "\\mapsto",
+    "∫": "\\int", "∮": "\\oint", "∑": "\\sum",
+    "∏": "\\prod", "⋂": "\\bigcap", "⋃": "\\bigcup",
+    "⋀": "\\bigwedge", "⋁": "\\bigvee",
+    "∈": "\\in", "∉": "\\notin", "∩": "\\cap",
+    "∪": "\\cup", "⊆": "\\subseteq", "⊇": "\\supseteq",
+    "⊂": "\\subset", "⊃": "\\supset", "¬": "\\neg",
+    "∧": "\\wedge", "∨": "\\vee", "\\": "\\setminus",
+    "⊕": "\\oplus", "⊙": "\\odot", "×": "\\times",
+    "÷": "\\div", "±": "\\pm", "∓": "\\mp", "−": "-",
+    "⋅": "\\cdot", "∗": "\\ast", "⋆": "\\star",
+    "∘": "\\circ", "⋈": "\\bowtie", "⋉": "\\ltimes",
+    "⋊": "\\rtimes", "⊢": "\\vdash", "⊨": "\\models",
+    "≤": "\\le", "≥": "\\ge", "≪": "\\ll", "≫": "\\gg",
+    "≺": "\\prec", "≻": "\\succ", "⪯": "\\preceq",
+    "⪰": "\\succeq", "≠": "\\ne", "≡": "\\equiv",
+    "≈": "\\approx", "≅": "\\cong", "∼": "\\sim",
+    "∴": "\\therefore", "∵": "\\because", "′": "'",
+    "⌈": "\\lceil", "⌉": "\\rceil", "⌊": "\\lfloor",
+    "⌋": "\\rfloor", "〈": "\\langle", "〉": "\\rangle",
+    "⏜": "\\frown", "∥": "\\|", "{": "\\{", "}": "\\}",
+    "\u00A0": "\\ ", "\u00A0\u00A0": "\\quad",
+    "\u00A0\u00A0\u00A0\u00A0": "\\qquad",
+    "lim": "\\lim", "min": "\\min", "max": "\\max",
+    "Lim": "\\operatorname*{Lim}"
+}
+/**
+ * Some operators, such as `sum` and `lim`, can have limits under and over them.
+ * For these we use the `\limits` modifier to place the limits similarly as in
+ * the MathML output. Other operators with limits are rendered with
+ * `\underset` and `\overset` commands.
+ */
+const limitOperators = [ "∑", "∏", "⋂", "⋃", "⋀",
+    "⋁", "lim", "Lim", "min", "max" ]
+/**
+ * Functions such as `sin` and `log` have their own commands in LaTeX. Functions
+ * that are not listed here are rendered using `\operatorname`.
+ */
+const functions = [ "arcsin", "arccos", "arctan", "cosh", "cos", "cot",
+    "coth", "csc", "det", "exp", "gcd", "lcm", "ln", "log", "sec", "sinh",
+    "sin", "tanh", "tan" ]
+/**
+ * Accents are mapped according to the name of the command that created them.
+ * Accents not listed here are put under or over the base expression.
+ */
+const accents: { [name: string]: string } = {
+    "bar": "\\overline", "ddot": "\\ddot", "dot": "\\dot", "hat": "\\hat",
+    "obrace": "\\overbrace", "tilde": "\\tilde", "ubrace": "\\underbrace",
+    "ul": "\\underline", "vec": "\\vec"
+}
+/**
+ * Fonts have corresponding LaTeX commands as well.
+ */
+const fonts: { [font in Font]: string } = {
+    "bold": "\\mathbf",
+    "sans-serif": "\\mathsf",
+    "monospace": "\\mathtt",
+    "double-struck": "\\mathbb",
+    "script": "\\mathcal",
+    "fraktur": "\\mathfrak"
+}
+/**
+ * ## Enclosures and Colors
+ *
+ * The notations of the `<menclose>` element are mapped to the LaTeX commands
+ * below. Several notations can be combined, so they are sorted before the 
+ * lookup. Notations without a matching command are drawn with a box.
+ */
+const encloseCommands: { [notation: string]: string } = {
+    "updiagonalstrike": "\\cancel",
+    "downdiagonalstrike": "\\bcancel",
+    "downdiagonalstrike updiagonalstrike": "\\xcancel",
+    "box": "\\boxed",
+    "roundedbox": "\\boxed",
+    "top": "\\overline",
+    "bottom": "\\underline"
+}
+
+function encloseCommand(notation: string): string {
+    let key = notation.trim().split(/\s+/).sort().join(" ")
+    return encloseCommands[key] || "\\boxed"
+}
+/**
+ * Colors are given in the syntax of CSS. Names are passed to `\color` as 
+ * they are. Hex codes and `rgb()` values are converted to the `HTML` and 
+ * `RGB` color models of `xcolor`. Other values are escaped, so that they 
+ * don't break the LaTeX.
+ */
+function color(value: string): string {
+    let hex = /^#([0-9A-Fa-f]{3,4}|[0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/.exec(value)
+    if (hex) {
+        let digits = hex[1].length <= 4 ? 
+            hex[1].replace(/./g, d => d + d) : hex[1]
+        return `[HTML]{${digits.slice(0, 6).toUpperCase()}}`
+    }
+    let rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*[,)]/.exec(value)
+    return rgb ? `[RGB]{${rgb.slice(1, 4).join(",")}}` : `{${escape(value)}}`
+}
+/**
+ * ## Escaping
+ *
+ * Characters that have a special meaning in LaTeX need to be escaped when they
+ * appear in text or as operators.
+ */
+function escape(text: string): string {
+    return text.replace(/[#$%&_{}\\~^]/g, ch => 
+        ch == "\\" ? "\\textbackslash{}" :
+        ch == "~" ? "\\textasciitilde{}" : 
+        ch == "^" ? "\\textasciicircum{}" : 
+        "\\" + ch)
+}
+/**
+ * The function below returns the LaTeX command for a symbol, or the escaped
+ * symbol itself, if it has no command.
+ */
+function symbol(value: string): string {
+    return commands[value] || escape(value)
+}
+/**
+ * Brackets are output with `\left` and `\right` commands, so that they grow
+ * with the expression inside them. Invisible brackets are replaced by a dot.
+ */
+function delimiter(output?: string): string {
+    return output ? commands[output] || output : "."
+}
+/**
+ * ## Renderer
+ *
+ * The renderer walks through the syntax tree and outputs the LaTeX code for
+ * each node. Parts are joined together with the `concat` method which adds a
+ * space between parts, if the previous part ends with a command name and the
+ * next one starts with a letter.
+ */
+class LaTeXRenderer {
+    concat(parts: string[]): string {
+        let res = ""
+        for (let i = 0; i < parts.length; ++i) {
+            let part = parts[i]
+            if (/\\[A-Za-z]+$/.test(res) && /^[A-Za-z]/.test(part))
+                res += " "
+            res += part
+        }
+        return res
+    }
+    /**
+     * The argument of a command is always enclosed in curly braces. If the
+     * argument is already inside invisible brackets, we don't need to add 
+     * another pair.
+     */
+    group(node: Node): string {
+        return node.type == "bracket" && !node.left && !node.right ?
+            this.render(node) : `{${this.render(node)}}`
+    }
+    /**
+     * The bases of scripts need braces, unless they are single symbols or
+     * expressions surrounded by brackets.
+     */
+    base(node: Node): string {
+        switch (node.type) {
+            case "identifier":
+            case "number":
+            case "operator":
+            case "bracket":
+            case "matrix":
+                return this.render(node)
+            default:
+                return this.group(node)
+        }
+    }
+    /**
+     * Subscripts and superscripts are rendered in the same way regardless of
+     * whether they are shown under and over the base or not.
+     */
+    scripts(lower?: Node, upper?: Node): string {
+        return (lower ? "_" + this.group(lower) : "") +
+            (upper ? "^" + this.group(upper) : "")
+    }
+    /**
+     * The `render` method outputs LaTeX for a node.
+     */
+    render(node: Node): string {
+        switch (node.type) {
+            case "row":
+                return this.concat(node.items.map(item => this.render(item)))
+            case "identifier":
+            case "number":
+                return symbol(node.value)
+            case "text":
+                return `\\text{${escape(node.value)}}`
+            case "operator":
+                return node.textual ? `\\;\\text{${escape(node.value)}}\\;` :
+                    /^[A-Za-z]{2,}$/.test(node.value) && !commands[node.value] ?
+                    `\\operatorname{${node.value}}` :
+                    symbol(node.value)
+            case "function":
+                return this.concat([functions.includes(node.name) ?
+                    "\\" + node.name : `\\operatorname{${node.name}}`,
+                    this.render(node.arg)])
+            case "fraction":
+                return `\\frac${this.group(node.numerator)}${
+                    this.group(node.denominator)}`
+            case "root":
+                return node.index ?
+                    `\\sqrt[${this.render(node.index)}]${
+                        this.group(node.radicand)}` :
+                    `\\sqrt${this.group(node.radicand)}`
+            case "script":
+                return this.base(node.base) + this.scripts(node.sub, node.sup)
+            case "underover":
+                return this.underOver(node.base, node.under, node.over)
+            case "accent":
+                return accents[node.name] ?
+                    `${accents[node.name]}${this.group(node.base)}` :
+                    `\\${node.position}set{${symbol(node.mark)}}${
+                        this.group(node.base)}`
+            case "bracket":
+                return !node.left && !node.right ? this.group(node.body) :
+                    this.concat([`\\left${delimiter(node.left)}`,
+                        this.render(node.body),
+                        `\\right${delimiter(node.right)}`])
+            case "matrix":
+                return this.matrix(node)
+            case "font":
+                return this.font(node)
+            case "style":
+                return node.attribute == "color" ?
+                    `{\\color${color(node.value)}${this.render(node.arg)}}` :
+                    this.render(node.arg)
+            case "enclose":
+                return `${encloseCommand(node.notation)}${
+                    this.group(node.arg)}`
+            case "error":
+                return `{\\color{red}\\text{${escape(node.message)}}}`
+        }
+    }
+    /**
+     * Operators like `sum` and `lim` get their limits with the `\limits`
+     * modifier. Other expressions are placed under or over the base with
+     * `\underset` and `\overset`.
+     */
+    underOver(base: Node, under?: Node, over?: Node): string {
+        if (base.type == "operator" && limitOperators.includes(base.value))
+            return this.render(base) + "\\limits" + this.scripts(under, over)
+        let res = this.render(base)
+        if (over)
+            res = `\\overset${this.group(over)}{${res}}`
+        if (under)
+            res = `\\underset${this.group(under)}{${res}}`
+        return res
+    }
+    /**
+     * Matrices are output with the `matrix` environment. Cells are separated
+     * by `&` and rows by `\\`. The brackets are added with `\left` and
+     * `\right`, if either of them is visible.
+     */
+    matrix(node: MatrixNode): string {
+        let rows = node.rows.map(row =>
+            row.map(cell => this.render(cell)).join(" & ")).join(" \\\\ ")
+        let res = `\\begin{matrix}${rows}\\end{matrix}`
+        return node.left || node.right ?
+            `\\left${delimiter(node.left)}${res}\\right${
+                delimiter(node.right)}` :
+            res
+    }
+    /**
+     * Text is not affected by math font commands in LaTeX. So, when a font is
+     * applied to a text string, we output the string as math characters with
+     * spaces escaped.
+     */
+    font(node: FontNode): string {
+        let cmd = fonts[node.font]
+        return node.arg.type == "text" ?
+            `${cmd}{${escape(node.arg.value).replace(/ /g, "\\ ")}}` :
+            `${cmd}${this.group(node.arg)}`
+    }
+}
+/**
+ * ## Converting Syntax Trees
+ *
+ * The function below converts a syntax tree to LaTeX. Use it if you want to
+ * transform the tree before rendering it.
+ */
+export function treeToLaTeX(tree: Node): string {
+    return new LaTeXRenderer().render(tree)
+}
@@ -0,0 +1,125 @@
+/**
+ * # Plugin for markdown-it
+ *
+ * Documentation sites built with [markdown-it][] can render AsciiMath with
+ * the plugin below. Equations have to be recognized before Markdown inline
+ * syntax is processed. Otherwise, the `_` and `*` characters in equations
+ * would be taken as emphasis. The plugin adds an inline rule that runs
+ * before the other inline rules and a renderer for fenced code blocks.
+ *
+ * Fences whose info string is `asciimath` are rendered as block equations.
+ * Inline equations are found with the same [delimiters](document.html) as in
+ * documents, so `$...$` and `\(...\)` give inline equations and `$$...$$`
+ * and `\[...\]` block equations inside paragraphs. The fence names and
+ * delimiters are configurable in the options. The other options are passed
+ * to `asciiToMathML`.
+ *
+ * ```js
+ * const md = require("markdown-it")()
+ * const { asciiMathPlugin } = require("asciimath2ml/lib/markdown-it")
+ * md.use(asciiMathPlugin, { delimiters: [
+ *     { left: "`", right: "`", inline: true } ] })
+ * ```
+ *
+ * [markdown-it]: https://github.com/markdown-it/markdown-it
+ */
+import { asciiToMathML, defaultDelimiters, Delimiter, MathMLOptions } from "."
+import { findEquation } from "./document"
+/**
+ * ## markdown-it Interfaces
+ *
+ * The library has no dependencies, so we describe the parts of the
+ * markdown-it API that the plugin uses with the interfaces below. They match
+ * the corresponding classes of markdown-it.
+ */
+interface Token {
+    content: string
+    info: string
+    meta: { inline: boolean }
+}
+
+interface StateInline {
+    src: string
+    pos: number
+    posMax: number
+    push(type: string, tag: string, nesting: number): Token
+}
+
+type InlineRule = (state: StateInline, silent: boolean) => boolean
+
+interface Renderer {
+    renderToken(tokens: Token[], idx: number, options: unknown): string
+}
+
+type RenderRule = (tokens: Token[], idx: number, options: unknown,
+    env: unknown, self: Renderer) => string
+
+interface MarkdownIt {
+    inline: {
+        ruler: {
+            before(beforeName: string, ruleName: string, rule: InlineRule):
+                void
+        }
+    }
+    renderer: {
+        rules: { [type: string]: RenderRule | undefined }
+    }
+}
+/**
+ * ## Options
+ *
+ * In addition to the MathML options, the plugin takes the info strings of
+ * fences that contain equations and the delimiters of inline equations.
+ */
+//#region markdown-it Options
+export interface MarkdownItOptions extends MathMLOptions {
+    fences?: string[]
+    delimiters?: Delimiter[]
+}
+//#endregion
+/**
+ * ## Plugin
+ *
+ * The plugin function is given to the `use` method of markdown-it.
+ */
+export function asciiMathPlugin(md: MarkdownIt,
+    options: MarkdownItOptions = {}) {
+    let { fences = ["asciimath"], delimiters = defaultDelimiters,
+        ...opts } = options
+    /**
+     * The inline rule checks if an equation starts at the current position.
+     * In silent mode, markdown-it only wants to know if the rule matches.
+     * Otherwise, we push a token that contains the equation and its display
+     * mode.
+     */
+    md.inline.ruler.before("escape", "asciimath", (state, silent) => {
+        let found = findEquation(state.src.slice(0, state.posMax), state.pos,
+            delimiters)
+        if (!found)
+            return false
+        let [delim, end] = found
+        if (!silent) {
+            let token = state.push("asciimath", "math", 0)
+            token.content = state.src.slice(state.pos + delim.left.length, end)
+                .trim()
+            token.meta = { inline: delim.inline }
+        }
+        state.pos = end + delim.right.length
+        return true
+    })
+    md.renderer.rules.asciimath = (tokens, idx) =>
+        asciiToMathML(tokens[idx].content,
+            { ...opts, inline: tokens[idx].meta.inline })
+    /**
+     * Fences with other info strings are rendered by the original rule.
+     */
+    let fence = md.renderer.rules.fence
+    md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+        let token = tokens[idx]
+        let lang = token.info.trim().split(/\s+/)[0]
+        return fences.includes(lang) ?
+            asciiToMathML(token.content, { ...opts, inline: false }) + "\n" :
+            fence ? fence(tokens, idx, options, env, self) :
+                self.renderToken(tokens, idx, options)
+    }
+}
@@ -0,0 +1,567 @@
+/**
+ * # Converting MathML to AsciiMath
+ *
+ * Content that exists only as MathML can be converted back to AsciiMath. The
+ * converter reads Presentation MathML and outputs AsciiMath that this library
+ * understands. The symbols are looked up from a reverse table which is built
+ * from the symbol table of the parser. So, `<mi>&#x03B1;</mi>` becomes
+ * `alpha`, `<mo>&#x2264;</mo>` becomes `<=`, and so on. Structures like
+ * fractions, scripts, roots, and tables are converted to the corresponding
+ * AsciiMath syntax.
+ *
+ * The converter outputs symbols separated by spaces and wraps arguments in
+ * invisible braces `{}`. The result is passed through the
+ * [formatter](format.html) which removes the extra spaces and braces.
+ *
+ * MathML produced by other tools may contain constructs that have no
+ * counterpart in AsciiMath. These are converted as well as possible; the
+ * contents of unknown elements are kept.
+ */
+import { Font } from "."
+import { fontTables } from "./chartables"
+/**
+ * ## Reverse Table
+ *
+ * The reverse table maps the outputs of symbols back to their inputs. It's
+ * built from the symbol table by the caller. Accents are keyed by their
+ * position and mark, for example `"over^"`. Matrix brackets are keyed by
+ * their output; the invisible ones have an empty key. Commands like `abs` 
+ * that surround their argument are keyed by the left and right brackets they
+ * output. Symbols that can have
+ * limits under and over them are listed separately. The table also contains
+ * the named character entities that the converter recognizes.
+ */
+export interface ReverseTable {
+    identifiers: Dictionary
+    operators: Dictionary
+    functions: Dictionary
+    accents: Dictionary
+    fonts: { [font in Font]?: string }
+    encloses: Dictionary
+    leftBrackets: Dictionary
+    rightBrackets: Dictionary
+    leftMatrices: Dictionary
+    rightMatrices: Dictionary
+    surrounds: Dictionary
+    underOvers: string[]
+    entities: Dictionary
+}
+
+type Dictionary = { [key: string]: string }
+/**
+ * Fonts are also given in the `mathvariant` attribute or in the CSS styles
+ * that the MathML renderer outputs.
+ */
+const fontStyles: [RegExp, Font][] = [
+    [/font-weight:\s*bold/, "bold"],
+    [/sans-serif/, "sans-serif"],
+    [/monospace/, "monospace"]
+]
+/**
+ * Invisible operators such as function application and invisible times have
+ * no counterpart in AsciiMath. They are dropped.
+ */
+const invisibleOperators = /^[⁡-⁤]*$/
+/**
+ * ## Parsing XML
+ *
+ * The input is parsed to a tree of elements and text strings. The parser is
+ * lenient, since it has to cope with MathML copied from web pages. Comments,
+ * processing instructions, and document type declarations are skipped.
+ * Unclosed elements are closed at the end of the input and unmatched closing
+ * tags are ignored. Namespace prefixes are removed from element names. The
+ * converter calls itself recursively for each element. To keep the call
+ * stack within bounds, input that is nested too deep is rejected with an
+ * exception.
+ */
+interface Element {
+    name: string
+    attributes: Dictionary
+    children: Content[]
+}
+
+type Content = Element | string
+
+const maxNesting = 1000
+/**
+ * The tokens are comments, CDATA sections, processing instructions and
+ * declarations, closing tags, opening tags with their attributes, text, and
+ * stray `<` characters.
+ */
+const attribute = /\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?/
+const xmlTokens = [ /<!--[\s\S]*?-->/, /<!\[CDATA\[([\s\S]*?)\]\]>/,
+    /<[?!][^>]*>/, /<\/\s*([^\s>]+)\s*>/,
+    new RegExp(`<([^\\s/>]+)((?:${attribute.source})*)\\s*(\\/?)>`), /[^<]+/,
+    /</ ].map(re => re.source).join("|")
+
+function parseXml(xml: string, entities: Dictionary): Element {
+    let root: Element = { name: "", attributes: {}, children: [] }
+    let stack = [root]
+    let tokens = new RegExp(xmlTokens, "g")
+    let match: RegExpExecArray | null
+    while ((match = tokens.exec(xml))) {
+        let [token, cdata, close, open, attrs, empty] = match
+        let top = stack[stack.length - 1]
+        if (cdata != undefined)
+            top.children.push(cdata)
+        else if (close) {
+            let name = localName(close)
+            let i = stack.map(e => e.name).lastIndexOf(name)
+            if (i > 0)
+                stack.length = i
+        }
+        else if (open) {
+            if (stack.length > maxNesting)
+                throw new Error(
+                    `MathML is nested deeper than ${maxNesting} levels`)
+            let elem: Element = { name: localName(open),
+                attributes: parseAttributes(attrs, entities), children: [] }
+            top.children.push(elem)
+            if (!empty)
+                stack.push(elem)
+        }
+        else if (token[0] != "<" || token.length == 1)
+            top.children.push(decodeXml(token, entities))
+    }
+    return root
+}
+
+function localName(name: string): string {
+    return name.slice(name.indexOf(":") + 1)
+}
+
+function parseAttributes(text: string, entities: Dictionary): Dictionary {
+    let res: Dictionary = {}
+    let attr = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+    let match: RegExpExecArray | null
+    while ((match = attr.exec(text)))
+        res[localName(match[1])] = decodeXml(
+            match[2] ?? match[3] ?? match[4] ?? "", entities)
+    return res
+}
+/**
+ * Numeric character references are decoded as well as the named entities
+ * given in the reverse table. Unknown entities are left as they are.
+ */
+function decodeXml(text: string, entities: Dictionary): string {
+    return text.replace(/&(#x[0-9A-Fa-f]+|#\d+|[A-Za-z][A-Za-z0-9]*);/g,
+        (ent, ref: string) => ref[0] == "#" ?
+            String.fromCodePoint(ref[1] == "x" ? parseInt(ref.slice(2), 16) :
+                parseInt(ref.slice(1))) :
+            entities[ref] ?? ent)
+}
+/**
+ * ## Helpers
+ *
+ * The text content of an element is the concatenation of its text strings.
+ */
+function textContent(content: Content): string {
+    return typeof content == "string" ? content :
+        content.children.map(textContent).join("")
+}
+/**
+ * Only XML whitespace is trimmed from text. Non-breaking spaces are content,
+ * for example in the output of `quad`.
+ */
+function trim(text: string): string {
+    return text.replace(/^[ \t\r\n]+|[ \t\r\n]+$/g, "")
+}
+/**
+ * Whitespace between elements is not significant.
+ */
+function elements(elem: Element): Element[] {
+    return elem.children.filter(c => typeof c != "string") as Element[]
+}
+/**
+ * Arguments that consist of several symbols are grouped with invisible
+ * braces. The formatter removes the braces that are not needed.
+ */
+function group(text: string): string {
+    return /^\S+$/.test(text) ? text : `{ ${text} }`
+}
+/**
+ * Text is quoted with double quotes, if possible. Otherwise, the `text`
+ * command is used. Text that contains both a double quote and a closing
+ * parenthesis is split at the double quotes.
+ */
+function quote(text: string): string {
+    return !text.includes('"') ? `"${text}"` :
+        !text.includes(")") ? `text(${text})` :
+        text.split(/(")/).filter(s => s).map(quote).join(" ")
+}
+/**
+ * Characters that are not in the reverse table are output as they are, if
+ * the parser reads them as symbols of their own. Those are ASCII letters and
+ * digits, and other letters, digits, symbols, and punctuation except for the
+ * superscript and subscript characters. Other ASCII characters are syntax,
+ * like `_` and `"`, or they are not accepted, like `?`. Those are quoted 
+ * as well as the rest.
+ */
+const scriptCharacters = /^[²³¹⁰-₟ᵢ-ᵪⱼ]$/u
+
+function character(ch: string): string {
+    return /^[A-Za-z0-9]$/.test(ch) || ch > "\x7f" && 
+        /^[\p{L}\p{N}\p{S}\p{P}]$/u.test(ch) && !scriptCharacters.test(ch) ?
+        ch : quote(ch)
+}
+/**
+ * Entities that are not recognized are left in the text by the XML parser.
+ * Text is split into them and single characters.
+ */
+function characters(text: string): string[] {
+    return text.match(/&[A-Za-z][A-Za-z0-9]*;|[^]/gu) ?? []
+}
+
+function isEntity(text: string): boolean {
+    return text.length > 1 && text[0] == "&"
+}
+/**
+ * The character tables of fonts are reversed to find the font and the letter
+ * of a character.
+ */
+const fontLetters: { [char: string]: [Font, string] } = {}
+const letters = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"
+for (let font in fontTables) {
+    let table = fontTables[font as Font]!
+    table.forEach((ch, i) => fontLetters[ch] = [font as Font, letters[i]])
+}
+/**
+ * ## Converter
+ *
+ * The converter walks through the elements and outputs AsciiMath for each of
+ * them. The reverse table is used to look up the symbols.
+ */
+class MathMLConverter {
+    private table: ReverseTable
+
+    constructor(table: ReverseTable) {
+        this.table = table
+    }
+    /**
+     * The `convert` method outputs AsciiMath for an element. Elements that
+     * are not recognized are converted as rows.
+     */
+    convert(elem: Element): string {
+        let args = elements(elem)
+        let arg = (i: number) => args[i] ? group(this.convert(args[i])) : "{ }"
+        switch (elem.name) {
+            case "mi":
+                return this.font(elem, this.identifier(trim(textContent(elem))))
+            case "mn":
+                return this.font(elem, trim(textContent(elem)))
+            case "mo":
+                return this.operator(trim(textContent(elem)))
+            case "mtext":
+            case "ms":
+                return this.text(textContent(elem))
+            case "mspace":
+            case "mphantom":
+            case "annotation":
+            case "annotation-xml":
+            case "none":
+            case "mprescripts":
+                return ""
+            case "merror":
+                return quote(trim(textContent(elem)))
+            case "mfrac":
+                return `${arg(0)} / ${arg(1)}`
+            case "msqrt":
+                return `sqrt ${group(this.row(args))}`
+            case "mroot":
+                return `root ${arg(0)} ${arg(1)}`
+            case "msub":
+                return `${arg(0)} _ ${arg(1)}`
+            case "msup":
+                return `${arg(0)} ^ ${arg(1)}`
+            case "msubsup":
+                return `${arg(0)} _ ${arg(1)} ^ ${arg(2)}`
+            case "mmultiscripts":
+                return this.multiscripts(args)
+            case "munder":
+                return this.underOver(args[0], args[1], undefined)
+            case "mover":
+                return this.underOver(args[0], undefined, args[1])
+            case "munderover":
+                return this.underOver(args[0], args[1], args[2])
+            case "mtable":
+                return this.matrix(elem)
+            case "mfenced":
+                return this.fenced(elem)
+            case "menclose":
+                return this.enclose(elem)
+            case "semantics":
+                return this.semantics(elem)
+            case "maction":
+                return args[0] ? this.convert(args[0]) : ""
+            default:
+                return this.style(elem, this.row(args))
+        }
+    }
+    /**
+     * ### Rows
+     *
+     * Rows are converted item by item. Brackets need special treatment,
+     * because MathML does not require them to be balanced. Unmatched brackets
+     * are closed with invisible ones. Vertical bars are kept as operators,
+     * since they can be either, unless their `form` attribute tells which 
+     * one they are. Tables between brackets become matrices with the same
+     * brackets. A row enclosed in fences that a command like `abs` outputs 
+     * is converted to the command.
+     */
+    row(items: Element[]): string {
+        let surround = this.surround(items)
+        if (surround)
+            return surround
+        let res: string[] = []
+        let open = 0
+        let unmatched = 0
+        for (let i = 0; i < items.length; ++i) {
+            let item = items[i]
+            let next = items[i + 1]
+            let op = item.name == "mo" ? trim(textContent(item)) : ""
+            let form = item.attributes.form
+            let { leftBrackets, rightBrackets, leftMatrices, 
+                rightMatrices } = this.table
+            if (next && next.name == "mtable" && leftMatrices[op]) {
+                let close = items[i + 2]
+                let right = close && close.name == "mo" ?
+                    rightMatrices[trim(textContent(close))] : undefined
+                res.push(this.matrix(next, leftMatrices[op], right))
+                i += right ? 2 : 1
+            }
+            else if (leftBrackets[op] && 
+                (form == "prefix" || !rightBrackets[op])) {
+                res.push(leftBrackets[op])
+                open++
+            }
+            else if (rightBrackets[op] && 
+                (form == "postfix" || !leftBrackets[op])) {
+                res.push(rightBrackets[op])
+                if (open > 0)
+                    open--
+                else
+                    unmatched++
+            }
+            else
+                res.push(this.convert(item))
+        }
+        return [...Array(unmatched).fill("{"), ...res, ...Array(open).fill("}")]
+            .filter(s => s).join(" ")
+    }
+    /**
+     * The fences of a surrounding command are the first and last item of the
+     * row. Their form must be given, so that `|a|b|` is not taken as `abs`.
+     */
+    surround(items: Element[]): string | undefined {
+        let first = items[0]
+        let last = items[items.length - 1]
+        if (items.length < 2 || first.name != "mo" || last.name != "mo" ||
+            first.attributes.form != "prefix" || 
+            last.attributes.form != "postfix")
+            return undefined
+        let cmd = this.table.surrounds[trim(textContent(first)) + 
+            trim(textContent(last))]
+        return cmd && `${cmd} ${group(this.row(items.slice(1, -1)))}`
+    }
+    /**
+     * ### Symbols
+     *
+     * Identifiers are looked up as a whole first. Then each character is
+     * looked up separately. Letters in the character tables of fonts are
+     * converted to font commands. Other identifiers with several letters,
+     * like `<mi>ab</mi>`, are quoted, since they would become separate 
+     * identifiers. Unknown entities are quoted, too.
+     */
+    identifier(text: string): string {
+        let { identifiers, operators, functions, fonts } = this.table
+        let res = identifiers[text] ?? functions[text]
+        if (res != undefined)
+            return res
+        let chars = characters(text)
+        if (chars.length > 1 && operators[text])
+            return operators[text]
+        if (chars.length > 1 && chars.every(ch => /^[\p{L}\p{N}]$/u.test(ch) &&
+            !fontLetters[ch]) || chars.some(isEntity))
+            return quote(text)
+        return chars.map(ch => {
+            let letter = fontLetters[ch]
+            return identifiers[ch] ?? (letter ?
+                `${fonts[letter[0]]} ${letter[1]}` : 
+                operators[ch] ?? character(ch))
+        }).join(" ")
+    }
+    /**
+     * Operators are looked up similarly. Function names are output as
+     * operators in MathML, so they are checked too. Brackets that end up here
+     * are written as brackets.
+     */
+    operator(text: string): string {
+        if (invisibleOperators.test(text))
+            return ""
+        let { operators, functions, identifiers, leftBrackets,
+            rightBrackets } = this.table
+        let res = operators[text] ?? functions[text] ?? leftBrackets[text] ??
+            rightBrackets[text] ?? identifiers[text]
+        return res ?? characters(text).map(ch => isEntity(ch) ? quote(ch) :
+            operators[ch] ?? identifiers[ch] ?? character(ch)).join(" ")
+    }
+    /**
+     * Text that is a textual operator like `and` is converted to the
+     * operator. Other text is quoted.
+     */
+    text(text: string): string {
+        let op = this.table.operators[text.trim()]
+        return op && /^[A-Za-z]+$/.test(op) ? op : quote(text)
+    }
+    /**
+     * Fonts given in the `mathvariant` attribute are converted to font
+     * commands.
+     */
+    font(elem: Element, text: string): string {
+        let font = this.table.fonts[elem.attributes.mathvariant as Font]
+        return font ? `${font} ${group(text)}` : text
+    }
+    /**
+     * ### Styles
+     *
+     * Colors, classes, ids, and fonts set with CSS styles are converted to
+     * the corresponding commands.
+     */
+    style(elem: Element, text: string): string {
+        let attrs = elem.attributes
+        let style = attrs.style && fontStyles.find(([re]) =>
+            re.test(attrs.style))
+        if (style && this.table.fonts[style[1]])
+            text = `${this.table.fonts[style[1]]} ${group(text)}`
+        if (attrs.mathvariant)
+            text = this.font(elem, text)
+        for (let attr of ["id", "class"])
+            if (attrs[attr])
+                text = `${attr} ${quote(attrs[attr])} ${group(text)}`
+        let color = attrs.mathcolor || attrs.color
+        return color ? `color ${quote(color)} ${group(text)}` : text
+    }
+    /**
+     * ### Scripts
+     *
+     * Symbols that can have limits, such as `sum`, get their under and over
+     * scripts with `_` and `^`. Accents are converted to accent commands, and
+     * other under and over scripts to `underset` and `overset`.
+     */
+    underOver(base: Element, under?: Element, over?: Element): string {
+        if (!base)
+            return ""
+        let res = this.convert(base)
+        let script = under || over
+        let mark = script && script.name == "mo" && this.table.accents[
+            (under ? "under" : "over") + trim(textContent(script))]
+        if (mark && !(under && over))
+            return `${mark} ${group(res)}`
+        if (this.table.underOvers.includes(res))
+            return [res, under && `_ ${group(this.convert(under))}`,
+                over && `^ ${group(this.convert(over))}`]
+                .filter(s => s).join(" ")
+        if (over)
+            res = `overset ${group(res)} ${group(this.convert(over))}`
+        if (under)
+            res = `underset ${group(res)} ${group(this.convert(under))}`
+        return res
+    }
+    /**
+     * Only the scripts after the base are supported in AsciiMath. The first
+     * pair of them is output.
+     */
+    multiscripts(args: Element[]): string {
+        let [base, sub, sup] = args
+        if (!base)
+            return ""
+        let res = group(this.convert(base))
+        if (sub && sub.name != "none" && sub.name != "mprescripts")
+            res += ` _ ${group(this.convert(sub))}`
+        if (sup && sup.name != "none" && sup.name != "mprescripts")
+            res += ` ^ ${group(this.convert(sup))}`
+        return res
+    }
+    /**
+     * ### Tables and Fences
+     *
+     * Tables are converted to our matrix syntax. Cells are separated by `;`
+     * and rows by `;;`. A table without brackets gets invisible matrix
+     * brackets. Labels of labeled rows are dropped.
+     */
+    matrix(elem: Element, left?: string, right?: string): string {
+        let rows = elements(elem).filter(row => row.name == "mtr" ||
+            row.name == "mlabeledtr").map(row => {
+                let cells = elements(row)
+                if (row.name == "mlabeledtr")
+                    cells = cells.slice(1)
+                return cells.map(cell => this.row(elements(cell)) || "{ }")
+                    .join(" ; ")
+            })
+        return `${left || this.table.leftMatrices[""]} ${rows.join(" ;; ")} ${
+            right || this.table.rightMatrices[""]}`
+    }
+    /**
+     * The deprecated `mfenced` element is converted to brackets. Its children
+     * are separated by commas, unless other separators are given.
+     */
+    fenced(elem: Element): string {
+        let attrs = elem.attributes
+        let open = attrs.open ?? "("
+        let close = attrs.close ?? ")"
+        let seps = (attrs.separators ?? ",").replace(/\s/g, "")
+        let items: Element[] = []
+        elements(elem).forEach((child, i) => {
+            if (i > 0 && seps)
+                items.push({ name: "mo", attributes: {},
+                    children: [seps[Math.min(i - 1, seps.length - 1)]] })
+            items.push(child)
+        })
+        let mo = (text: string): Element =>
+            ({ name: "mo", attributes: {}, children: [text] })
+        return this.row([...open ? [mo(open)] : [], ...items,
+            ...close ? [mo(close)] : []])
+    }
+    /**
+     * Enclosures are converted to commands, if the notation is supported.
+     */
+    enclose(elem: Element): string {
+        let text = this.row(elements(elem))
+        let cmd = this.table.encloses[elem.attributes.notation ?? "longdiv"]
+        return cmd ? `${cmd} ${group(text)}` : text
+    }
+    /**
+     * If the semantics element has an AsciiMath annotation, we use it as is.
+     * Otherwise, the first child is converted.
+     */
+    semantics(elem: Element): string {
+        let annotation = elements(elem).find(e => e.name == "annotation" &&
+            e.attributes.encoding == "application/x-asciimath")
+        if (annotation)
+            return trim(textContent(annotation))
+        let first = elements(elem)[0]
+        return first ? this.convert(first) : ""
+    }
+}
+/**
+ * ## Converting MathML
+ *
+ * The function below converts MathML to unformatted AsciiMath. The input can
+ * be a whole `<math>` element or a fragment of MathML. If it contains no
+ * MathML elements at all, it's probably not MathML, so we throw an exception
+ * instead of returning an empty string.
+ */
+export function mathMLToSource(mathml: string, table: ReverseTable): string {
+    let root = parseXml(mathml, table.entities)
+    if (!containsMathML(root))
+        throw new Error("Input contains no MathML elements")
+    return new MathMLConverter(table).convert(root)
+}
+/**
+ * The names of MathML presentation elements start with `m`, except for
+ * `semantics`, `annotation`, and `none`.
+ */
+function containsMathML(elem: Element): boolean {
+    return /^(m[a-z]+|semantics|annotation|none)$/.test(elem.name) ||
+        elements(elem).some(containsMathML)
+}
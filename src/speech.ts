@@ -0,0 +1,412 @@
+/**
+ * # Spoken Text
+ *
+ * Screen readers do not always announce MathML well. To help them, equations
+ * can be converted to plain English text which reads the equation aloud. For
+ * example, `sum_(i=1)^n i^3` becomes "the sum from i equals 1 to n of i
+ * cubed". The text is generated from the same syntax tree as MathML and LaTeX,
+ * so it follows the structure of the equation: fractions, roots, scripts,
+ * limits, and functions are read with the words that describe them.
+ *
+ * The text can be put in the `aria-label` or `alttext` attribute of the
+ * generated `<math>` element using the `speech` output option.
+ */
+import { Node, MatrixNode, ScriptNode, FontNode, Font } from "."
+/**
+ * ## Words for Symbols
+ *
+ * Identifiers and operators are read using the table below. Characters that
+ * are not found in the table are read as they are.
+ */
+const words: { [output: string]: string } = {
+    "α": "alpha", "β": "beta", "γ": "gamma", "Γ": "capital gamma",
+    "δ": "delta", "Δ": "capital delta", "ε": "epsilon", "ɛ": "epsilon",
+    "ζ": "zeta", "η": "eta", "θ": "theta", "Θ": "capital theta",
+    "ϑ": "theta", "ι": "iota", "κ": "kappa", "λ": "lambda",
+    "Λ": "capital lambda", "μ": "mu", "ν": "nu", "ξ": "xi", "Ξ": "capital xi",
+    "π": "pi", "Π": "capital pi", "ρ": "rho", "σ": "sigma",
+    "Σ": "capital sigma", "τ": "tau", "υ": "upsilon", "ϕ": "phi",
+    "Φ": "capital phi", "φ": "phi", "χ": "chi", "ψ": "psi",
+    "Ψ": "capital psi", "ω": "omega", "Ω": "capital omega",
+    "+": "plus", "-": "minus", "−": "minus", "±": "plus or minus",
+    "∓": "minus or plus", "*": "times", "⋅": "times", "×": "times",
+    "∗": "star", "⋆": "star", "÷": "divided by", "/": "divided by",
+    "\\": "set minus", "∘": "composed with", "⊕": "direct sum",
+    "⊙": "circled dot", "=": "equals", "≠": "is not equal to",
+    "<": "is less than", ">": "is greater than",
+    "≤": "is less than or equal to", "≥": "is greater than or equal to",
+    "≪": "is much less than", "≫": "is much greater than",
+    "≺": "precedes", "≻": "succeeds", "⪯": "precedes or equals",
+    "⪰": "succeeds or equals", "≡": "is equivalent to",
+    "≈": "is approximately equal to", "≅": "is congruent to",
+    "∼": "is similar to", "∝": "is proportional to",
+    "∈": "is an element of", "∉": "is not an element of",
+    "⊂": "is a subset of", "⊃": "is a superset of",
+    "⊆": "is a subset of or equal to", "⊇": "is a superset of or equal to",
+    "∩": "intersection", "∪": "union", "¬": "not", "∧": "and", "∨": "or",
+    "⇒": "implies", "⇐": "is implied by", "⇔": "if and only if",
+    "∀": "for all", "∃": "there exists", "⊢": "proves", "⊨": "models",
+    "⊤": "top", "⊥": "is perpendicular to", "∴": "therefore",
+    "∵": "because", "→": "goes to", "←": "left arrow", "↑": "up arrow",
+    "↓": "down arrow", "↔": "left right arrow", "↦": "maps to",
+    "↠": "onto", "↣": "into", "∞": "infinity", "∅": "the empty set",
+    "∂": "partial", "∇": "nabla", "∠": "angle", "△": "triangle",
+    "□": "square", "⋄": "diamond", "ℵ": "aleph", "′": "prime",
+    "ℂ": "the complex numbers", "ℕ": "the natural numbers",
+    "ℚ": "the rational numbers", "ℝ": "the real numbers",
+    "ℤ": "the integers", "...": "dot dot dot", "⋯": "dot dot dot",
+    "⋮": "vertical dots", "⋱": "diagonal dots", ",": ",", ":": ":",
+    "!": "factorial", "∥": "is parallel to", "'": "prime"
+}
+/**
+ * Big operators are read with an article, and their limits are read with
+ * "from" and "to". The expression following the operator is introduced with
+ * "of".
+ */
+const bigOperators: { [output: string]: string } = {
+    "∑": "the sum", "∏": "the product", "⋂": "the intersection",
+    "⋃": "the union", "⋀": "the conjunction", "⋁": "the disjunction",
+    "∫": "the integral", "∮": "the contour integral", "lim": "the limit",
+    "Lim": "the limit", "min": "the minimum", "max": "the maximum"
+}
+/**
+ * Functions are read with their full names, if they have one.
+ */
+const functions: { [name: string]: string } = {
+    "sin": "sine", "cos": "cosine", "tan": "tangent", "sec": "secant",
+    "csc": "cosecant", "cot": "cotangent", "arcsin": "arc sine",
+    "arccos": "arc cosine", "arctan": "arc tangent",
+    "sinh": "hyperbolic sine", "cosh": "hyperbolic cosine",
+    "tanh": "hyperbolic tangent", "sech": "hyperbolic secant",
+    "csch": "hyperbolic cosecant", "coth": "hyperbolic cotangent",
+    "exp": "the exponential", "log": "log", "ln": "natural log",
+    "det": "the determinant", "dim": "the dimension",
+    "gcd": "the greatest common divisor", "lcm": "the least common multiple"
+}
+/**
+ * Brackets are read aloud, except when they denote a function like absolute
+ * value or floor. Those are listed in the second table by their left bracket.
+ */
+const brackets: { [output: string]: string } = {
+    "(": "open paren", ")": "close paren", "[": "open bracket",
+    "]": "close bracket", "{": "open brace", "}": "close brace",
+    "〈": "open angle bracket", "〉": "close angle bracket",
+    "|": "vertical bar", "∥": "double vertical bar"
+}
+
+const bracketFunctions: { [left: string]: string } = {
+    "|": "the absolute value of", "∥": "the norm of", "⌊": "the floor of",
+    "⌈": "the ceiling of"
+}
+/**
+ * Vertical bars are plain operators in the syntax tree. Two bars in the same
+ * row are read as an absolute value, and two double bars like `||v||` as a
+ * norm. A lone bar is read according 
+ * to the brackets around it: "such that" in set braces, "given" in the 
+ * arguments of a function like `P(A|B)`, and "vertical bar" elsewhere.
+ */
+const bars = ["|", "∥"]
+
+function isBar(node?: Node, value?: string): boolean {
+    return !!node && node.type == "operator" && bars.includes(node.value) &&
+        (!value || node.value == value)
+}
+/**
+ * The closing bar can be the base of a script, as in `|x|^2`.
+ */
+function isClosingBar(node: Node | undefined, value: string): boolean {
+    return isBar(node, value) || 
+        !!node && node.type == "script" && isBar(node.base, value)
+}
+/**
+ * The function below returns the output of the bars that open at index `i`,
+ * the number of items they take, and the index of the last closing bar. If 
+ * the bars are not closed, the index is negative.
+ */
+function barPair(items: Node[], i: number): [string, number, number] {
+    let item = items[i]
+    if (item.type != "operator" || !isBar(item))
+        return ["", 0, -1]
+    let bar = item.value
+    let double = bar == "|" && isBar(items[i + 1], bar)
+    let len = double ? 2 : 1
+    let close = items.findIndex((other, j) => j > i + len && (double ?
+        isBar(other, bar) && isClosingBar(items[j + 1], bar) :
+        isClosingBar(other, bar)))
+    return [double ? "∥" : bar, len, close < 0 ? close : close + len - 1]
+}
+
+const barEnds: { [bar: string]: string } = {
+    "|": "end absolute value", "∥": "end norm"
+}
+/**
+ * Letters followed by parentheses are read as functions only if they are
+ * commonly used as function names. Otherwise, `n(n+1)` would be read as a
+ * function application.
+ */
+const functionLetters = /^[fghpqFGHPQ]$/
+/**
+ * Accents are read after or before the base according to the name of the
+ * command that created them.
+ */
+const accents: { [name: string]: [string, string] } = {
+    "hat": ["", "hat"], "bar": ["", "bar"], "ul": ["", "underlined"],
+    "vec": ["vector", ""], "dot": ["", "dot"], "ddot": ["", "double dot"],
+    "tilde": ["", "tilde"], "overarc": ["arc", ""],
+    "obrace": ["", "with brace over it"], "ubrace": ["", "with brace under it"]
+}
+/**
+ * Fonts are mentioned before the expression they affect.
+ */
+const fonts: { [font in Font]: string } = {
+    "bold": "bold",
+    "sans-serif": "sans serif",
+    "monospace": "monospace",
+    "double-struck": "double struck",
+    "script": "script",
+    "fraktur": "fraktur"
+}
+/**
+ * Ordinal numbers are used for the indices of roots.
+ */
+const ordinals: { [index: string]: string } = {
+    "2": "square", "3": "cube", "4": "fourth", "5": "fifth", "6": "sixth",
+    "7": "seventh", "8": "eighth", "9": "ninth", "10": "tenth",
+    "n": "n-th"
+}
+/**
+ * ## Arguments
+ *
+ * Parentheses around the arguments of commands, fractions, and scripts only
+ * group the argument, so they are not read aloud. The function below strips
+ * them.
+ */
+function group(node: Node): Node {
+    return node.type == "bracket" && node.left == "(" && node.right == ")" ?
+        node.body : node
+}
+/**
+ * ## Renderer
+ *
+ * The renderer walks through the syntax tree and outputs the words for each
+ * node. The words are joined together with spaces. Simple expressions consist
+ * of a single symbol, and they don't need to be delimited when reading
+ * fractions and scripts.
+ */
+class SpeechRenderer {
+    private bar = "vertical bar"
+
+    join(parts: string[]): string {
+        return parts.filter(part => part).join(" ")
+    }
+    /**
+     * Arguments are rendered without the grouping parentheses.
+     */
+    arg(node: Node): string {
+        return this.render(group(node))
+    }
+
+    simple(node: Node): boolean {
+        node = group(node)
+        switch (node.type) {
+            case "identifier":
+            case "number":
+            case "text":
+                return true
+            case "row":
+                return node.items.length == 1 && this.simple(node.items[0])
+            case "bracket":
+                return !node.left && !node.right && this.simple(node.body)
+            default:
+                return false
+        }
+    }
+    /**
+     * The `render` method outputs the words for a node.
+     */
+    render(node: Node): string {
+        switch (node.type) {
+            case "row":
+                return this.row(node.items)
+            case "identifier":
+            case "operator":
+                return isBar(node, "|") ? this.bar : bigOperators[node.value] ||
+                    words[node.value] || node.value
+            case "number":
+            case "text":
+                return node.value
+            case "function":
+                return this.join([functions[node.name] || node.name, "of",
+                    this.arg(node.arg)])
+            case "fraction":
+                return this.simple(node.numerator) &&
+                    this.simple(node.denominator) ?
+                    this.join([this.arg(node.numerator), "over",
+                        this.arg(node.denominator)]) :
+                    this.join(["the fraction with numerator",
+                        this.arg(node.numerator), "and denominator",
+                        this.arg(node.denominator), "end fraction"])
+            case "root":
+                return this.join([node.index ?
+                    `the ${this.ordinal(node.index)} root of` :
+                    "the square root of", this.arg(node.radicand),
+                    this.simple(node.radicand) ? "" : "end root"])
+            case "script":
+                return this.script(node)
+            case "underover":
+                return this.limits(node.base, node.under, node.over)
+            case "accent":
+                let [before, after] = accents[node.name] ||
+                    ["", `with ${this.render({ type: "operator",
+                        value: node.mark })} ${node.position} it`]
+                return this.join([before, this.arg(node.base), after])
+            case "bracket":
+                let func = node.left && bracketFunctions[node.left]
+                return func ?
+                    this.join([func, this.arg(node.body)]) :
+                    this.join([this.bracket(node.left), this.barred(node.body,
+                        node.left == "{" ? "such that" : "vertical bar"),
+                        this.bracket(node.right)])
+            case "matrix":
+                return this.matrix(node)
+            case "font":
+                return this.font(node)
+            case "style":
+                return this.render(node.arg)
+            case "enclose":
+                return this.join([this.render(node.arg), "crossed out"])
+            case "error":
+                return `error ${node.message}`
+        }
+    }
+    /**
+     * Items of a row are read one by one. Bars are paired as described 
+     * above. An identifier followed directly by parentheses is a function
+     * application like `f(x)`, and it's read as "f of x".
+     */
+    row(items: Node[]): string {
+        let parts: string[] = []
+        for (let i = 0; i < items.length; ++i) {
+            let item = items[i]
+            let next = items[i + 1]
+            let [bar, len, close] = barPair(items, i)
+            if (close > 0) {
+                let body: Node = { type: "row", items: items.slice(i + len, 
+                    close - len + 1) }
+                let value = this.join([bracketFunctions[bar], 
+                    this.render(body), this.simple(body) ? "" : barEnds[bar]])
+                let last = items[close]
+                parts.push(last.type == "script" ? 
+                    this.script({ ...last, base: { type: "text", value } }) :
+                    value)
+                i = close
+            }
+            else if (next && this.applied(items[i - 1], item, next)) {
+                parts.push(this.render(item), "of", 
+                    this.barred(group(next), "given"))
+                i++
+            }
+            else
+                parts.push(this.render(item))
+        }
+        return this.join(parts)
+    }
+    /**
+     * Parentheses right after a letter that usually names a function, 
+     * without space between them, contain the arguments of the function.
+     * The letter must not end a longer word, such as `mathbf(v)`.
+     */
+    applied(prev: Node | undefined, item: Node, next: Node): boolean {
+        return item.type == "identifier" && functionLetters.test(item.value) &&
+            !(prev?.type == "identifier" && prev.end == item.start) &&
+            next.type == "bracket" && next.left == "(" && 
+            next.right == ")" && item.end != undefined && 
+            item.end == next.start
+    }
+    /**
+     * The body of brackets is rendered with the word for lone bars given.
+     */
+    barred(node: Node, bar: string): string {
+        let outer = this.bar
+        this.bar = bar
+        let res = this.render(node)
+        this.bar = outer
+        return res
+    }
+    /**
+     * Brackets are read by their names. Invisible brackets are silent.
+     */
+    bracket(output?: string): string {
+        return output ? brackets[output] || output : ""
+    }
+    /**
+     * Superscripts `2` and `3` are read as "squared" and "cubed". Other
+     * superscripts are read as powers, and subscripts with the word "sub".
+     * Integrals with scripts are read like sums.
+     */
+    script(node: ScriptNode): string {
+        if (node.base.type == "operator" && bigOperators[node.base.value])
+            return this.limits(node.base, node.sub, node.sup)
+        let res = [this.render(node.base)]
+        if (node.sub)
+            res.push("sub", this.arg(node.sub))
+        if (node.sup) {
+            let sup = this.arg(node.sup)
+            res.push(sup == "2" ? "squared" : sup == "3" ? "cubed" :
+                sup == "′" || sup == "prime" ? "prime" :
+                this.simple(node.sup) ? `to the power of ${sup}` :
+                `to the power of ${sup} end power`)
+        }
+        return this.join(res)
+    }
+    /**
+     * Operators with limits are read as "the sum from A to B of". The
+     * limit operator reads its lower limit with the word "as".
+     */
+    limits(base: Node, lower?: Node, upper?: Node): string {
+        if (base.type == "operator" && bigOperators[base.value]) {
+            let isLimit = /^(lim|Lim)$/.test(base.value)
+            return this.join([bigOperators[base.value],
+                lower ? `${isLimit ? "as" : "from"} ${this.arg(lower)}` : "",
+                upper ? `to ${this.arg(upper)}` : "", "of"])
+        }
+        return this.join([this.render(base),
+            lower ? `with ${this.arg(lower)} under it` : "",
+            lower && upper ? "and" : upper ? "with" : "",
+            upper ? `${this.arg(upper)} over it` : ""])
+    }
+    /**
+     * Root indices are read as ordinals when possible.
+     */
+    ordinal(index: Node): string {
+        let idx = this.arg(index)
+        return ordinals[idx] || `${idx}-th`
+    }
+    /**
+     * Matrices are read row by row after announcing their dimensions.
+     */
+    matrix(node: MatrixNode): string {
+        let cols = Math.max(0, ...node.rows.map(row => row.length))
+        let rows = node.rows.map((row, i) => `row ${i + 1}: ${
+            row.map(cell => this.render(cell)).join(", ")}`)
+        return `the ${node.rows.length} by ${cols} matrix; ${
+            rows.join("; ")}; end matrix`
+    }
+    /**
+     * Fonts are mentioned only for single letters, such as `bbb R`. Longer
+     * expressions are read without the font.
+     */
+    font(node: FontNode): string {
+        let arg = this.arg(node.arg)
+        return this.simple(node.arg) ? `${fonts[node.font]} ${arg}` : arg
+    }
+}
+/**
+ * ## Converting Syntax Trees
+ *
+ * The function below converts a syntax tree to spoken text. Whitespace in the
+ * result is normalized to single spaces.
+ */
+export function treeToSpeech(tree: Node): string {
+    return new SpeechRenderer().render(tree).replace(/\s+/g, " ").trim()
+}
@@ -0,0 +1,313 @@
+/**
+ * # Plain Text Output
+ *
+ * MathML can't be used everywhere. Terminals, log messages, commit messages,
+ * and plain-text emails need equations as readable text. This module renders
+ * the syntax tree using Unicode characters only. Superscripts and subscripts
+ * are shown with the Unicode super- and subscript characters, accents with
+ * combining characters, and fonts with the mathematical letters of Unicode.
+ * For example, `sum_(i=1)^n x_i^2` becomes `∑ᵢ₌₁ⁿ xᵢ²`.
+ *
+ * Not every expression has a Unicode form. In that case, we fall back to
+ * bracketed notation similar to the AsciiMath input, for example `x^(π/2)`.
+ */
+import { Node, MatrixNode, FontNode, Font } from "."
+import { CharTable, convertText, fontTables } from "./chartables"
+/**
+ * ## Character Maps
+ *
+ * Unicode has superscript and subscript versions of digits, some operators,
+ * and a subset of letters. The tables below list them.
+ */
+const superscripts: { [char: string]: string } = {
+    "0": "⁰", "1": "¹", "2": "²", "3": "³", "4": "⁴", "5": "⁵", "6": "⁶",
+    "7": "⁷", "8": "⁸", "9": "⁹", "+": "⁺", "-": "⁻", "−": "⁻", "=": "⁼",
+    "(": "⁽", ")": "⁾", "a": "ᵃ", "b": "ᵇ", "c": "ᶜ", "d": "ᵈ", "e": "ᵉ",
+    "f": "ᶠ", "g": "ᵍ", "h": "ʰ", "i": "ⁱ", "j": "ʲ", "k": "ᵏ", "l": "ˡ",
+    "m": "ᵐ", "n": "ⁿ", "o": "ᵒ", "p": "ᵖ", "r": "ʳ", "s": "ˢ", "t": "ᵗ",
+    "u": "ᵘ", "v": "ᵛ", "w": "ʷ", "x": "ˣ", "y": "ʸ", "z": "ᶻ", "T": "ᵀ",
+    "′": "′", "*": "*"
+}
+
+const subscripts: { [char: string]: string } = {
+    "0": "₀", "1": "₁", "2": "₂", "3": "₃", "4": "₄", "5": "₅", "6": "₆",
+    "7": "₇", "8": "₈", "9": "₉", "+": "₊", "-": "₋", "−": "₋", "=": "₌",
+    "(": "₍", ")": "₎", "a": "ₐ", "e": "ₑ", "h": "ₕ", "i": "ᵢ", "j": "ⱼ",
+    "k": "ₖ", "l": "ₗ", "m": "ₘ", "n": "ₙ", "o": "ₒ", "p": "ₚ", "r": "ᵣ",
+    "s": "ₛ", "t": "ₜ", "u": "ᵤ", "v": "ᵥ", "x": "ₓ"
+}
+/**
+ * Accents are output as combining characters after the base character. They
+ * are selected by the name of the command that created the accent.
+ */
+const accents: { [name: string]: string } = {
+    "hat": "̂", "bar": "̅", "vec": "⃗", "dot": "̇",
+    "ddot": "̈", "tilde": "̃", "ul": "̲"
+}
+/**
+ * Common fractions have their own characters.
+ */
+const fractions: { [fraction: string]: string } = {
+    "1/2": "½", "1/3": "⅓", "2/3": "⅔", "1/4": "¼", "3/4": "¾", "1/5": "⅕",
+    "2/5": "⅖", "3/5": "⅗", "4/5": "⅘", "1/6": "⅙", "5/6": "⅚", "1/8": "⅛",
+    "3/8": "⅜", "5/8": "⅝", "7/8": "⅞"
+}
+/**
+ * Roots with small indices also have their own characters.
+ */
+const roots: { [index: string]: string } = {
+    "2": "√", "3": "∛", "4": "∜"
+}
+/**
+ * Bold, sans-serif, and monospace letters are in the Mathematical
+ * Alphanumeric Symbols block. MathML output sets the `mathvariant` attribute
+ * for them instead, so their tables are defined here. The lower case letters
+ * follow the upper case ones without gaps.
+ */
+function alphanumerics(first: number): CharTable {
+    let res: CharTable = []
+    for (let i = 0; i < 52; ++i)
+        res.push(String.fromCodePoint(first + i))
+    return res
+}
+
+const charTables: { [font in Font]?: CharTable } = {
+    ...fontTables,
+    "bold": alphanumerics(0x1D400),
+    "sans-serif": alphanumerics(0x1D5A0),
+    "monospace": alphanumerics(0x1D670)
+}
+/**
+ * Operators are surrounded by spaces, except for the ones listed below.
+ * Commas and semicolons get a space only after them.
+ */
+const tightOperators = [ "!", "′", "'", "/", "⋅", "(", ")", "[", "]", "|",
+    "∂", "∇", "¬", "∑", "∏", "∫", "∮", "⋂", "⋃", "⋀", "⋁" ]
+/**
+ * ## Helpers
+ *
+ * The function below converts a string using one of the script tables. If
+ * some character has no counterpart, it returns `undefined`. Spaces are
+ * dropped.
+ */
+function convertScript(text: string,
+    table: { [char: string]: string }): string | undefined {
+    let res = ""
+    for (let ch of text.replace(/\s+/g, "")) {
+        let conv = table[ch]
+        if (conv == undefined)
+            return undefined
+        res += conv
+    }
+    return res || undefined
+}
+/**
+ * Combining characters are added after each character of a string. Spaces are
+ * left as they are.
+ */
+function combine(text: string, mark: string): string {
+    return [...text].map(ch => ch == " " ? ch : ch + mark).join("")
+}
+/**
+ * Parentheses around arguments only group them. We strip them before
+ * converting an argument to a script.
+ */
+function group(node: Node): Node {
+    return node.type == "bracket" && node.left == "(" && node.right == ")" ?
+        node.body : node
+}
+/**
+ * Atoms are expressions that don't need parentheses when they are used as a
+ * part of fraction or as a base of a script.
+ */
+function atomic(node: Node): boolean {
+    switch (node.type) {
+        case "identifier":
+        case "number":
+        case "text":
+        case "root":
+        case "matrix":
+            return true
+        case "function":
+            return node.arg.type == "bracket" && !!node.arg.left
+        case "operator":
+            return !node.textual
+        case "row":
+            return node.items.length == 1 && atomic(node.items[0])
+        case "bracket":
+            return !!node.left && !!node.right || atomic(node.body)
+        case "script":
+        case "accent":
+            return atomic(node.base)
+        case "font":
+        case "style":
+        case "enclose":
+            return atomic(node.arg)
+        default:
+            return false
+    }
+}
+/**
+ * ## Renderer
+ *
+ * The renderer walks through the syntax tree and outputs text for each node.
+ * Like the MathML renderer, it keeps a stack of character tables that are
+ * applied to identifiers and text inside font commands.
+ */
+class UnicodeRenderer {
+    private charTables: CharTable[] = []
+
+    charTable(): CharTable | undefined {
+        return this.charTables[this.charTables.length - 1]
+    }
+    /**
+     * Compound expressions are wrapped in parentheses when they are used as
+     * arguments. Parentheses around atoms are dropped.
+     */
+    arg(node: Node): string {
+        node = group(node)
+        let res = this.render(node)
+        return atomic(node) ? res : `(${res})`
+    }
+    /**
+     * The `render` method outputs text for a node.
+     */
+    render(node: Node): string {
+        switch (node.type) {
+            case "row":
+                return node.items.map(item => this.render(item)).join("")
+                    .replace(/ {2,}/g, " ")
+            case "identifier":
+            case "text":
+                return convertText(node.value, this.charTable())
+            case "number":
+                return node.value
+            case "operator":
+                return this.operator(node.value, node.textual)
+            case "function":
+                let arg = this.render(node.arg)
+                return node.arg.type == "bracket" && node.arg.left ?
+                    node.name + arg : `${node.name} ${arg}`
+            case "fraction":
+                let num = this.render(group(node.numerator))
+                let den = this.render(group(node.denominator))
+                return fractions[`${num}/${den}`] ||
+                    (/^\d+$/.test(num) && /^\d+$/.test(den) ?
+                        `${num}⁄${den}` :
+                        `${this.arg(node.numerator)}/${
+                            this.arg(node.denominator)}`)
+            case "root":
+                return this.root(node.radicand, node.index)
+            case "script":
+                return this.scripts(node.base, node.sub, node.sup)
+            case "underover":
+                return this.scripts(node.base, node.under, node.over)
+            case "accent":
+                return this.accent(node.name, this.render(group(node.base)))
+            case "bracket":
+                return node.left && node.right ?
+                    node.left + this.render(group(node.body)) + node.right :
+                    (node.left || "") + this.render(node.body) +
+                        (node.right || "")
+            case "matrix":
+                return this.matrix(node)
+            case "font":
+                return this.font(node)
+            case "style":
+                return this.render(node.arg)
+            case "enclose":
+                return combine(this.render(group(node.arg)), "̶")
+            case "error":
+                return node.message
+        }
+    }
+    /**
+     * Operators are surrounded by spaces, unless they are tight.
+     */
+    operator(value: string, textual?: boolean): string {
+        return textual ? ` ${value} ` :
+            value == "," || value == ";" ? value + " " :
+            tightOperators.includes(value) ? value :
+            ` ${value} `
+    }
+    /**
+     * Accents are combined with single characters. Lines over and under the 
+     * base can be combined with every character of a longer base as well. 
+     * Other accents fall back to the command syntax.
+     */
+    accent(name: string, base: string): string {
+        let mark = accents[name]
+        let lines = name == "bar" || name == "ul"
+        return mark && ([...base].length == 1 || lines) ?
+            combine(base, mark) : `${name}(${base})`
+    }
+    /**
+     * Roots with index 2, 3 or 4 have their own characters. Other indices are
+     * output as superscripts before the root sign, if possible. Otherwise, we
+     * fall back to the `root` command.
+     */
+    root(radicand: Node, index?: Node): string {
+        let idx = index ? this.render(group(index)) : "2"
+        let rad = this.arg(radicand)
+        let sign = roots[idx]
+        if (sign)
+            return sign + rad
+        let sup = convertScript(idx, superscripts)
+        return sup ? `${sup}√${rad}` : `root(${idx})${rad}`
+    }
+    /**
+     * Scripts are converted to super- and subscript characters, if all the
+     * characters have a counterpart. Otherwise, they are output with `_` and
+     * `^` characters. Compound scripts are put in parentheses.
+     */
+    scripts(base: Node, lower?: Node, upper?: Node): string {
+        let res = this.arg(base).trim()
+        if (lower)
+            res += this.script(lower, subscripts, "_")
+        if (upper)
+            res += this.script(upper, superscripts, "^")
+        return base.type == "operator" ? ` ${res} ` : res
+    }
+
+    script(node: Node, table: { [char: string]: string },
+        prefix: string): string {
+        let text = this.render(group(node))
+        return convertScript(text, table) ||
+            prefix + (atomic(group(node)) ? text : `(${text})`)
+    }
+    /**
+     * Matrices are output row by row. Cells are separated by commas and rows
+     * by semicolons. If the matrix has no visible brackets, we use square
+     * brackets.
+     */
+    matrix(node: MatrixNode): string {
+        let rows = node.rows.map(row =>
+            row.map(cell => this.render(cell).trim()).join(", ")).join("; ")
+        return node.left || node.right ?
+            `${node.left || ""}${rows}${node.right || ""}` :
+            `[${rows}]`
+    }
+    /**
+     * Fonts are applied to identifiers and text in the argument using their
+     * character tables. Parentheses around the argument are dropped like
+     * around the bases of accents.
+     */
+    font(node: FontNode): string {
+        let table = node.table || charTables[node.font]
+        if (!table)
+            return this.render(group(node.arg))
+        this.charTables.push(table)
+        let res = this.render(group(node.arg))
+        this.charTables.pop()
+        return res
+    }
+}
+/**
+ * ## Converting Syntax Trees
+ *
+ * The function below converts a syntax tree to plain Unicode text. Extra
+ * spaces are removed from the result.
+ */
+export function treeToUnicode(tree: Node): string {
+    return new UnicodeRenderer().render(tree).replace(/\s+/g, " ").trim()
+}
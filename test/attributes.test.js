@@ -0,0 +1,41 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, mathMLToAscii } = require("../lib")
+
+function mathml(input) {
+    return asciiToMathML(input, { displayStyle: false })
+        .replace(/^<math[^>]*>|<\/math>$/g, "")
+}
+
+const open = '<mo fence="true" form="prefix" stretchy="true">'
+const close = '<mo fence="true" form="postfix" stretchy="true">'
+
+test("brackets are stretchy fences with a form", () => {
+    assert.strictEqual(mathml("(x)"),
+        `<mrow>${open}&#40;</mo><mi>x</mi>${close}&#41;</mo></mrow>`)
+    assert.strictEqual(mathml("[| a |]"), `<mrow>${open}&#91;</mo><mtable>` +
+        `<mtr><mtd><mi>a</mi></mtd></mtr></mtable>${close}&#93;</mo></mrow>`)
+})
+
+test("brackets of surrounding commands are fences", () => {
+    assert.match(mathml("abs x"), 
+        new RegExp(`^<mrow>${open}&#124;</mo><mi>x</mi>${close}&#124;`))
+})
+
+test("single bars stretch without a form", () => {
+    assert.strictEqual(mathml("a | b"), '<mi>a</mi><mo fence="true" ' +
+        'stretchy="true">&#124;</mo><mi>b</mi>')
+})
+
+test("big operators and integrals are large", () => {
+    assert.strictEqual(mathml("sum x"), '<mo form="prefix" largeop="true" ' +
+        'movablelimits="true">&#x2211;</mo><mi>x</mi>')
+    assert.strictEqual(mathml("int x"), 
+        '<mo form="prefix" largeop="true">&#x222B;</mo><mi>x</mi>')
+    assert.strictEqual(mathml("+"), "<mo>&#43;</mo>")
+})
+
+test("fence forms are used in MathML import", () => {
+    assert.strictEqual(mathMLToAscii(asciiToMathML("abs x + |a|b|")),
+        "abs x + |a| b |")
+})
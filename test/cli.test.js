@@ -0,0 +1,66 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { spawnSync } = require("node:child_process")
+const fs = require("node:fs")
+const os = require("node:os")
+const path = require("node:path")
+
+const cli = path.join(__dirname, "../lib/cli.js")
+
+function run(args, input) {
+    let { status, stdout, stderr } = spawnSync(process.execPath, 
+        [cli, ...args], { input, encoding: "utf8" })
+    return { status, stdout, stderr }
+}
+
+const x = '<math display="inline"><mstyle displaystyle="true"><mi>x</mi>' +
+    "</mstyle></math>\n"
+
+test("equations are converted from arguments", () => {
+    assert.deepStrictEqual(run(["--inline", "x"]),
+        { status: 0, stdout: x, stderr: "" })
+})
+
+test("each line is an equation in batch mode", () => {
+    let { status, stdout } = run(["-b", "-i"], "x\n\nx\n")
+    assert.strictEqual(status, 0)
+    assert.strictEqual(stdout, x + x)
+})
+
+test("equations are read from files", () => {
+    let file = path.join(os.tmpdir(), `asciimath2ml-${process.pid}.txt`)
+    fs.writeFileSync(file, "x")
+    try {
+        assert.strictEqual(run(["-i", "--file", file]).stdout, x)
+    }
+    finally {
+        fs.unlinkSync(file)
+    }
+})
+
+test("exit code is 1 when equations contain errors", () => {
+    let { status, stdout } = run(["?"])
+    assert.strictEqual(status, 1)
+    assert.match(stdout, /<merror>/)
+})
+
+test("exit code is 2 for invalid arguments and missing files", () => {
+    let usage = run(["--bogus"])
+    assert.strictEqual(usage.status, 2)
+    assert.match(usage.stderr, /^Unknown option --bogus\n\nUsage:/)
+    let missing = run(["-f", path.join(os.tmpdir(), "no-such-file")])
+    assert.strictEqual(missing.status, 2)
+    assert.match(missing.stderr, /ENOENT/)
+})
+
+test("help is printed to the standard output", () => {
+    let { status, stdout } = run(["--help"])
+    assert.strictEqual(status, 0)
+    assert.match(stdout, /^Usage: asciimath2ml/)
+})
+
+test("safe mode is turned on with a flag", () => {
+    let { status, stdout } = run(["--safe", "-i", '"<i>"'])
+    assert.strictEqual(status, 0)
+    assert.match(stdout, /<mtext>&#60;i&#62;<\/mtext>/)
+})
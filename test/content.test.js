@@ -0,0 +1,56 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, parseAsciiMath, treeToContentMathML } = 
+    require("../lib")
+
+function content(input) {
+    return asciiToMathML(input, { content: true })
+        .replace(/^<math[^>]*>|<\/math>$/g, "")
+}
+
+test("operators are applied by precedence", () => {
+    assert.strictEqual(content("2x^2+1"), "<apply><plus/><apply><times/>" +
+        "<cn>2</cn><apply><power/><ci>x</ci><cn>2</cn></apply></apply>" +
+        "<cn>1</cn></apply>")
+    assert.strictEqual(content("a/b"),
+        "<apply><divide/><ci>a</ci><ci>b</ci></apply>")
+})
+
+test("functions are applied to their arguments", () => {
+    assert.strictEqual(content("sin x"), "<apply><sin/><ci>x</ci></apply>")
+    assert.strictEqual(content("f(x)"),
+        '<apply><ci type="function">f</ci><ci>x</ci></apply>')
+})
+
+test("min and max take their arguments separately", () => {
+    assert.strictEqual(content("min(a,b,c)"),
+        "<apply><min/><ci>a</ci><ci>b</ci><ci>c</ci></apply>")
+    assert.strictEqual(content("max(x,y)"),
+        "<apply><max/><ci>x</ci><ci>y</ci></apply>")
+})
+
+test("relation chains become a conjunction of pairs", () => {
+    assert.strictEqual(content("a < b <= c"), "<apply><and/>" +
+        "<apply><lt/><ci>a</ci><ci>b</ci></apply>" +
+        "<apply><leq/><ci>b</ci><ci>c</ci></apply></apply>")
+    assert.strictEqual(content("a = b < c"), "<apply><and/>" +
+        "<apply><eq/><ci>a</ci><ci>b</ci></apply>" +
+        "<apply><lt/><ci>b</ci><ci>c</ci></apply></apply>")
+})
+
+test("big operators get bound variables and limits", () => {
+    assert.strictEqual(content("sum_(i=1)^n i"), "<apply><sum/><bvar>" +
+        "<ci>i</ci></bvar><lowlimit><cn>1</cn></lowlimit><uplimit>" +
+        "<ci>n</ci></uplimit><ci>i</ci></apply>")
+    assert.strictEqual(content("int_0^1 x dx"), "<apply><int/><bvar>" +
+        "<ci>x</ci></bvar><lowlimit><cn>0</cn></lowlimit><uplimit>" +
+        "<cn>1</cn></uplimit><ci>x</ci></apply>")
+})
+
+test("errors are output as cerror elements", () => {
+    assert.match(content("?"), /^<cerror>/)
+})
+
+test("content markup can be generated from a syntax tree", () => {
+    assert.strictEqual(treeToContentMathML(parseAsciiMath("x")), "<ci>x</ci>")
+})
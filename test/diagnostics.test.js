@@ -0,0 +1,36 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { convertAsciiMath, parseAsciiMath } = require("../lib")
+
+test("valid input has no diagnostics", () => {
+    let { diagnostics } = convertAsciiMath("sum_(i=1)^n i^2 = (n(n+1)(2n+1))/6")
+    assert.deepStrictEqual(diagnostics, [])
+})
+
+test("unrecognized characters are reported at their position", () => {
+    let { mathml, diagnostics } = convertAsciiMath("a + ? b")
+    assert.match(mathml, /<merror>/)
+    assert.deepStrictEqual(diagnostics, [{ code: "unknown-symbol",
+        message: 'Unrecognized character "?"', severity: "error",
+        start: 4, end: 5 }])
+})
+
+test("missing brackets are reported at the left bracket", () => {
+    let diagnostics = []
+    parseAsciiMath("x + (a - b", diagnostics)
+    assert.deepStrictEqual(diagnostics.map(d => [d.code, d.start, d.end]),
+        [["missing-bracket", 4, 5]])
+})
+
+test("missing scripts are reported at the end of input", () => {
+    let { diagnostics } = convertAsciiMath("x^")
+    assert.deepStrictEqual(diagnostics.map(d => [d.code, d.message, d.start]),
+        [["missing-argument", 'Missing script after "^"', 2]])
+})
+
+test("parseAsciiMath appends to the given list", () => {
+    let diagnostics = []
+    parseAsciiMath("?", diagnostics)
+    parseAsciiMath("?", diagnostics)
+    assert.strictEqual(diagnostics.length, 2)
+})
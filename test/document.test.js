@@ -0,0 +1,40 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { renderMathInText } = require("../lib")
+
+const inline = '<math display="inline"><mi>x</mi></math>'
+const block = '<math display="block"><mi>x</mi></math>'
+
+function render(text, options) {
+    return renderMathInText(text, { displayStyle: false, ...options })
+}
+
+test("default delimiters give inline and block equations", () => {
+    assert.strictEqual(render("a $x$ b"), `a ${inline} b`)
+    assert.strictEqual(render("\\(x\\) <am>x</am>"), `${inline} ${inline}`)
+    assert.strictEqual(render("$$x$$ \\[x\\]"), `${block} ${block}`)
+})
+
+test("code and escaped delimiters are left alone", () => {
+    assert.strictEqual(render("`$x$` $x$"), `\`$x$\` ${inline}`)
+    assert.strictEqual(render("```\n$x$\n```\n$x$"),
+        `\`\`\`\n$x$\n\`\`\`\n${inline}`)
+    assert.strictEqual(render("price \\$5 and $x$"),
+        `price \\$5 and ${inline}`)
+})
+
+test("unclosed delimiters are kept as text", () => {
+    assert.strictEqual(render("$x"), "$x")
+    assert.strictEqual(render("a $$ b"), "a $$ b")
+})
+
+test("custom delimiters replace the default ones", () => {
+    let delimiters = [{ left: "`", right: "`", inline: true }]
+    assert.strictEqual(render("`x` $x$", { delimiters }), `${inline} $x$`)
+})
+
+test("other options are passed to the converter", () => {
+    assert.strictEqual(renderMathInText("$x$", { xmlns: true }),
+        '<math xmlns="http://www.w3.org/1998/Math/MathML" display="inline">' +
+        '<mstyle displaystyle="true"><mi>x</mi></mstyle></math>')
+})
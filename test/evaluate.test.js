@@ -0,0 +1,48 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { evaluate, evaluateTree, parseAsciiMath, EvaluationError } = 
+    require("../lib")
+
+test("arithmetic follows the usual precedence", () => {
+    assert.strictEqual(evaluate("2+3*4"), 14)
+    assert.strictEqual(evaluate("2x", { x: 4 }), 8)
+    assert.strictEqual(evaluate("(a/b)/c", { a: 8, b: 2, c: 2 }), 2)
+    assert.strictEqual(evaluate("2^(3^2)"), 512)
+    assert.strictEqual(evaluate("3!"), 6)
+})
+
+test("functions, roots, and constants", () => {
+    assert.strictEqual(evaluate("sqrt(16)"), 4)
+    assert.strictEqual(evaluate("root(8)(3)"), 2)
+    assert.strictEqual(evaluate("sin(pi/2)"), 1)
+    assert.strictEqual(evaluate("abs(-3)"), 3)
+    assert.strictEqual(evaluate("e^0"), 1)
+})
+
+test("sums use their bounds", () => {
+    assert.ok(Math.abs(evaluate("sqrt(x^2 + 1) + sum_(i=1)^3 i", { x: 2 }) -
+        8.236) < 0.001)
+})
+
+test("trees can be evaluated directly", () => {
+    assert.strictEqual(evaluateTree(parseAsciiMath("x^2"), { x: 3 }), 9)
+})
+
+function throws(input, message, start, end) {
+    let scope = { a: 1, b: 2, c: 3 }
+    assert.throws(() => evaluate(input, scope), error => 
+        error instanceof EvaluationError && error.message == message && 
+        error.start == start && error.end == end, input)
+}
+
+test("errors are thrown with their positions", () => {
+    throws("y", 'Unknown identifier "y"', 0, 1)
+    throws("1 +", "Missing operand", 2, 3)
+    throws("?", 'Unrecognized character "?"', 0, 1)
+})
+
+test("chained fractions and scripts must be grouped", () => {
+    throws("a/b/c", "Chained fractions must be grouped, like in (a/b)/c", 
+        3, 4)
+    throws("2^3^2", "Chained scripts must be grouped, like in a^(b^c)", 3, 4)
+})
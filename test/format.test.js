@@ -0,0 +1,51 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, formatAsciiMath } = require("../lib")
+
+const cases = [
+    ["x^{2}+{a}/b", "x^2 + a/b"],
+    ["ox", "o+"],
+    ["a  *  b", "a * b"],
+    ["f(x)=sin x", "f(x) = sin x"],
+    ["sum_(i=1)^n i", "sum_(i = 1)^n i"],
+    ["x/(y+1)", "x/(y + 1)"],
+    ["a,b", "a, b"],
+    ["-x", "-x"],
+    ["x^-1 + y", "x^-1 + y"],
+    ["e^-x + 1", "e^-x + 1"],
+    ["[|a;b;;c;d|]", "[|\n    a; b;;\n    c; d\n|]"],
+    ["[|a; ;b|]", "[|\n    a; ; b\n|]"]
+]
+
+test("equations are printed in canonical form", () => {
+    for (let [input, expected] of cases)
+        assert.strictEqual(formatAsciiMath(input), expected, input)
+})
+
+/**
+ * Braces that are removed leave out an `<mrow>`, which does not change the
+ * rendering.
+ */
+function render(input) {
+    return asciiToMathML(input).replace(/<\/?mrow>/g, "")
+}
+
+test("formatted equations render the same and format to themselves", () => {
+    for (let [input] of cases) {
+        let formatted = formatAsciiMath(input)
+        assert.strictEqual(render(formatted), render(input), input)
+        assert.strictEqual(formatAsciiMath(formatted), formatted, input)
+    }
+})
+
+test("TeX aliases are replaced with AsciiMath names", () => {
+    assert.strictEqual(formatAsciiMath("\\alpha + \\beta",
+        { texAliases: true }), "alpha + beta")
+})
+
+test("problems are reported and the input is kept", () => {
+    let diagnostics = []
+    assert.strictEqual(formatAsciiMath("a + ?", {}, diagnostics), "a + ?")
+    assert.deepStrictEqual(diagnostics.map(d => [d.code, d.start, d.end]),
+        [["unknown-symbol", 4, 5]])
+})
@@ -0,0 +1,36 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, mathMLToAscii } = require("../lib")
+
+test("generated MathML converts back to the source", () => {
+    let cases = ["x^2", "sqrt x", "a/b", "bb x", "hat x", "sum_(i = 1)^n i",
+        "[|\n    a; b;;\n    c; d\n|]"]
+    for (let input of cases)
+        assert.strictEqual(mathMLToAscii(asciiToMathML(input)), input)
+})
+
+test("root, overset, and underset keep their argument order", () => {
+    for (let input of ["root(x)(3)", "overset(a)(b)", "underset(a)(b)"])
+        assert.strictEqual(mathMLToAscii(asciiToMathML(input)), input)
+})
+
+test("entities and syntax characters are converted", () => {
+    assert.strictEqual(mathMLToAscii("<math><mi>&alpha;</mi></math>"),
+        "alpha")
+    assert.strictEqual(mathMLToAscii("<math><mi>?</mi><mo>_</mo></math>"),
+        '"?" "_"')
+    assert.strictEqual(mathMLToAscii("<math><mtext>hi</mtext></math>"),
+        '"hi"')
+})
+
+test("input without MathML elements throws", () => {
+    assert.throws(() => mathMLToAscii("hello"),
+        /Input contains no MathML elements/)
+    assert.throws(() => mathMLToAscii("<p>hello</p>"),
+        /Input contains no MathML elements/)
+})
+
+test("deeply nested input throws", () => {
+    assert.throws(() => mathMLToAscii("<math>" + "<mrow>".repeat(1001) + 
+        "</math>"), /nested deeper than 1000 levels/)
+})
@@ -0,0 +1,40 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToLaTeX } = require("../lib")
+
+function check(cases) {
+    for (let [input, expected] of cases)
+        assert.strictEqual(asciiToLaTeX(input), expected, input)
+}
+
+test("fractions, roots, and scripts use LaTeX commands", () => {
+    check([
+        ["a/b", "\\frac{a}{b}"],
+        ["sqrt x", "\\sqrt{x}"],
+        ["root 3 x", "\\sqrt[x]{3}"],
+        ["x_i^2", "x_{i}^{2}"],
+        ["sum_i^n i", "\\sum\\limits_{i}^{n}i"]
+    ])
+})
+
+test("symbols map to LaTeX names", () => {
+    check([
+        ["alpha <= beta", "\\alpha\\le\\beta"],
+        ["sin x", "\\sin x"],
+        ["hat x", "\\hat{x}"]
+    ])
+})
+
+test("fonts, text, and brackets are converted", () => {
+    check([
+        ["bb A", "\\mathbf{A}"],
+        ["bbb R", "\\mathbb{R}"],
+        ["text(if) x", "\\text{if}x"],
+        ["abs x", "\\left|x\\right|"],
+        ["(a, b]", "\\left(a,b\\right]"]
+    ])
+})
+
+test("errors are shown in red", () => {
+    check([["x^", "x^{{\\color{red}\\text{Missing script}}}"]])
+})
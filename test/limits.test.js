@@ -0,0 +1,54 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { convertAsciiMath } = require("../lib")
+
+function convert(input, options) {
+    let { mathml, diagnostics } = convertAsciiMath(input, 
+        { displayStyle: false, ...options })
+    return [mathml.replace(/^<math[^>]*>|<\/math>$/g, ""),
+        diagnostics.map(d => [d.code, d.message, d.start, d.end])]
+}
+
+function exceeded(message, end) {
+    return [`<merror><mtext>${message}</mtext></merror>`,
+        [["limit-exceeded", message, 0, end]]]
+}
+
+test("long input is replaced with an error", () => {
+    assert.deepStrictEqual(convert("x+y", { maxInputLength: 2 }),
+        exceeded("Input is longer than 2 characters", 3))
+    assert.deepStrictEqual(convert("x+y", { maxInputLength: 3 })[1], [])
+})
+
+test("nesting is limited to 100 levels by default", () => {
+    assert.deepStrictEqual(convert("(".repeat(200) + "x"),
+        exceeded("Equation is nested deeper than 100 levels", 201))
+    assert.deepStrictEqual(convert("(".repeat(50) + "x" + ")".repeat(50))[1],
+        [])
+})
+
+test("brackets and commands count as nesting", () => {
+    assert.deepStrictEqual(convert("((x))", { maxNesting: 1 }),
+        exceeded("Equation is nested deeper than 1 levels", 5))
+    assert.deepStrictEqual(convert("sqrt sqrt sqrt x", { maxNesting: 2 }),
+        exceeded("Equation is nested deeper than 2 levels", 16))
+})
+
+test("long output is replaced with an error", () => {
+    assert.deepStrictEqual(convert("alpha beta gamma", { maxOutputSize: 20 }),
+        exceeded("Output is longer than 20 characters", 16))
+})
+
+test("macro blow-up is reported once", () => {
+    let input = "def(d)(1)(#1 #1) " + "d ".repeat(25) + "x"
+    assert.deepStrictEqual(convert(input), ["<merror><mtext>Too many " +
+        "macro expansions</mtext></merror>", [["invalid-macro", "Macro " +
+        "expansion is nested too deeply, repeated too often, or too large",
+        17, 68]]])
+})
+
+test("recursive macros are reported once", () => {
+    assert.deepStrictEqual(convert("def(r)(r r) r")[1], [["invalid-macro", 
+        "Macro expansion is nested too deeply, repeated too often, or too " +
+        "large", 12, 13]])
+})
@@ -0,0 +1,51 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, convertAsciiMath } = require("../lib")
+
+function mathml(input, opts) {
+    return asciiToMathML(input, true, false, false, opts)
+        .replace(/^<math[^>]*><mstyle[^>]*>|<\/mstyle><\/math>$/g, "")
+}
+
+test("macros without parameters expand to their body", () => {
+    assert.strictEqual(mathml("def(R2)(RR^2) R2"), mathml("RR^2"))
+})
+
+test("macro parameters are replaced with the arguments", () => {
+    assert.strictEqual(mathml("def(pdv)(2)({del #1}/{del #2}) pdv{f}{x}"),
+        mathml("{del {f}}/{del {x}}"))
+})
+
+test("macros can be defined in the preamble", () => {
+    assert.strictEqual(mathml("half x", { preamble: "def(half)(1)(#1/2)" }),
+        mathml("x/2"))
+})
+
+test("macros are positioned at their use", () => {
+    let { diagnostics } = convertAsciiMath("def(p)(1)(#1 ?) x p(y)")
+    assert.deepStrictEqual(diagnostics.map(d => [d.code, d.start, d.end]),
+        [["unknown-symbol", 18, 22]])
+})
+
+test("invalid macro definitions are reported", () => {
+    let { mathml, diagnostics } = convertAsciiMath("def(f)")
+    assert.match(mathml, /<merror>/)
+    assert.deepStrictEqual(diagnostics.map(d => d.code), ["invalid-macro"])
+})
+
+test("missing macro arguments are reported and shown as errors", () => {
+    let { mathml, diagnostics } = convertAsciiMath("def(p)(1)(#1) p")
+    assert.match(mathml, /<merror>/)
+    assert.deepStrictEqual(diagnostics.map(d => [d.code, d.message, d.start]),
+        [["missing-argument", 'Missing argument for macro "p"', 15]])
+})
+
+test("missing arguments inside brackets stop at the bracket", () => {
+    let { diagnostics } = convertAsciiMath("def(p)(2)(#1+#2) (p x) y")
+    assert.deepStrictEqual(diagnostics.map(d => d.code), ["missing-argument"])
+})
+
+test("recursive macros are stopped", () => {
+    let { diagnostics } = convertAsciiMath("def(r)(r r) r")
+    assert.ok(diagnostics.some(d => d.code == "invalid-macro"))
+})
@@ -0,0 +1,31 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const MarkdownIt = require("markdown-it")
+const { asciiMathPlugin } = require("../lib/markdown-it")
+
+function render(text, options) {
+    return new MarkdownIt().use(asciiMathPlugin, 
+        { displayStyle: false, ...options }).render(text)
+}
+
+test("inline equations are rendered before emphasis", () => {
+    assert.strictEqual(render("a $x_1 * y_2*$ b"), '<p>a <math ' +
+        'display="inline"><msub><mi>x</mi><mn>1</mn></msub><mo>&#x22C5;' +
+        "</mo><msub><mi>y</mi><mn>2</mn></msub><mo>&#x22C5;</mo></math> " +
+        "b</p>\n")
+})
+
+test("asciimath fences become block equations", () => {
+    assert.strictEqual(render("```asciimath\nx\n```"),
+        '<math display="block"><mi>x</mi></math>\n')
+    assert.strictEqual(render("```am\nx\n```", { fences: ["am"] }),
+        '<math display="block"><mi>x</mi></math>\n')
+})
+
+test("code and escaped delimiters are left alone", () => {
+    assert.strictEqual(render("```js\n$x$\n```"),
+        '<pre><code class="language-js">$x$\n</code></pre>\n')
+    assert.strictEqual(render("`$x$`"), "<p><code>$x$</code></p>\n")
+    assert.strictEqual(render("\\$5 $x$"),
+        '<p>$5 <math display="inline"><mi>x</mi></math></p>\n')
+})
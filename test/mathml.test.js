@@ -0,0 +1,52 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, parseAsciiMath } = require("../lib")
+/**
+ * The expected outputs were produced by version 1.0.7, which generated MathML
+ * directly while parsing. Character references are decoded before comparing,
+ * since the entities chosen for some characters differ. The layout attributes
+ * of brackets and big operators are new, so they are removed.
+ */
+const baseline = require("./baseline.json")
+
+const layoutAttributes = / (fence|form|stretchy|largeop|movablelimits)="\w+"/g
+
+function normalize(mathml) {
+    return mathml.replace(layoutAttributes, "")
+        .replace(/&#(x[0-9A-Fa-f]+|\d+);/g, (ent, ref) =>
+        String.fromCodePoint(ref[0] == "x" ? parseInt(ref.slice(1), 16) :
+            +ref))
+}
+
+test("MathML output matches version 1.0.7", () => {
+    for (let [input, expected] of baseline)
+        assert.strictEqual(normalize(asciiToMathML(input, true)),
+            normalize(expected), input)
+})
+
+test("block equations are wrapped in display mode", () => {
+    assert.strictEqual(asciiToMathML("x"), '<math display="block">' +
+        '<mstyle displaystyle="true"><mi>x</mi></mstyle></math>')
+})
+
+test("syntax tree contains typed nodes", () => {
+    let tree = parseAsciiMath("x_1 + sqrt a/b")
+    assert.deepStrictEqual(tree.items.map(node => node.type),
+        ["script", "operator", "fraction"])
+    let [script, , fraction] = tree.items
+    assert.strictEqual(script.sub.value, "1")
+    assert.strictEqual(fraction.numerator.type, "root")
+})
+
+test("root, overset, and underset keep the argument order of 1.0.7", () => {
+    let [root, over] = parseAsciiMath("root(x)(3) overset(a)(b)").items
+    assert.strictEqual(root.radicand.body.items[0].value, "x")
+    assert.strictEqual(root.index.body.items[0].value, "3")
+    assert.strictEqual(over.base.body.items[0].value, "a")
+    assert.strictEqual(over.over.body.items[0].value, "b")
+})
+
+test("missing scripts are shown as errors", () => {
+    assert.match(asciiToMathML("x^"), /<msup><mi>x<\/mi><merror>/)
+    assert.match(asciiToMathML("a_"), /<msub><mi>a<\/mi><merror>/)
+})
@@ -0,0 +1,33 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, convertAsciiMath } = require("../lib")
+
+test("options object gives the same output as positional parameters", () => {
+    for (let input of ["x^2", "a < b", "f(x) = sin x"]) {
+        assert.strictEqual(asciiToMathML(input, { inline: true }),
+            asciiToMathML(input, true))
+        assert.strictEqual(asciiToMathML(input, { strictSpec: true }),
+            asciiToMathML(input, false, false, false, { strictSpec: true }))
+    }
+})
+
+test("math element attributes are set from options", () => {
+    assert.strictEqual(asciiToMathML("x", { inline: true, xmlns: true,
+        displayStyle: false, class: "eq", id: "e1", alttext: "a<x" }),
+        '<math xmlns="http://www.w3.org/1998/Math/MathML" ' +
+        'display="inline" class="eq" id="e1" alttext="a&#60;x">' +
+        "<mi>x</mi></math>")
+})
+
+test("named entities are used on request", () => {
+    assert.match(asciiToMathML("alpha < x", { entities: "named" }),
+        /<mi>&alpha;<\/mi><mo>&lt;<\/mo>/)
+    assert.match(asciiToMathML("alpha"), /<mi>&#x03B1;<\/mi>/)
+})
+
+test("convertAsciiMath accepts the options object", () => {
+    let { mathml, diagnostics } = convertAsciiMath("x", { inline: true,
+        displayStyle: false })
+    assert.strictEqual(mathml, '<math display="inline"><mi>x</mi></math>')
+    assert.deepStrictEqual(diagnostics, [])
+})
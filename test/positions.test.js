@@ -0,0 +1,38 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, parseAsciiMath } = require("../lib")
+
+function range(node) {
+    return [node.start, node.end]
+}
+
+test("nodes have the range of input they were parsed from", () => {
+    let tree = parseAsciiMath("  x_12 + sqrt(a)")
+    let [script, plus, root] = tree.items
+    assert.deepStrictEqual(range(tree), [2, 16])
+    assert.deepStrictEqual(range(script), [2, 6])
+    assert.deepStrictEqual(range(script.base), [2, 3])
+    assert.deepStrictEqual(range(script.sub), [4, 6])
+    assert.deepStrictEqual(range(plus), [7, 8])
+    assert.deepStrictEqual(range(root), [9, 16])
+    assert.deepStrictEqual(range(root.radicand), [13, 16])
+})
+
+test("multi-character symbols span their whole input", () => {
+    let [alpha, , arrow] = parseAsciiMath("alpha + ->").items
+    assert.deepStrictEqual(range(alpha), [0, 5])
+    assert.deepStrictEqual(range(arrow), [8, 10])
+})
+
+test("missing scripts are located at the end of input", () => {
+    let [script] = parseAsciiMath("x^").items
+    assert.deepStrictEqual(range(script.sup), [2, 2])
+})
+
+test("source maps are added only when requested", () => {
+    assert.doesNotMatch(asciiToMathML("a+b"), /data-src/)
+    let mathml = asciiToMathML("a+b", false, false, true)
+    assert.match(mathml, /<mi data-src-start="0" data-src-end="1">a<\/mi>/)
+    assert.match(mathml, /<mo data-src-start="1" data-src-end="2">/)
+    assert.match(mathml, /<mi data-src-start="2" data-src-end="3">b<\/mi>/)
+})
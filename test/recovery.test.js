@@ -0,0 +1,42 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { convertAsciiMath } = require("../lib")
+
+function convert(input) {
+    let { mathml, diagnostics } = convertAsciiMath(input, 
+        { displayStyle: false })
+    return [mathml.replace(/^<math[^>]*>|<\/math>$/g, ""),
+        diagnostics.map(d => [d.code, d.start, d.end])]
+}
+
+test("parsing continues after a stray closing bracket", () => {
+    assert.deepStrictEqual(convert("a) + b"), ["<mi>a</mi><merror><mtext>)" +
+        "</mtext></merror><mo>&#43;</mo><mi>b</mi>",
+        [["unmatched-bracket", 1, 2]]])
+})
+
+test("every stray bracket is reported", () => {
+    assert.deepStrictEqual(convert("a}}")[1], 
+        [["unmatched-bracket", 1, 2], ["unmatched-bracket", 2, 3]])
+    assert.deepStrictEqual(convert("x + ) (y")[1],
+        [["unmatched-bracket", 4, 5], ["missing-bracket", 6, 7]])
+})
+
+test("brackets after a matrix are checked", () => {
+    assert.deepStrictEqual(convert("[| a; b |] )")[1],
+        [["unmatched-bracket", 11, 12]])
+})
+
+test("matrix separators outside matrices are errors", () => {
+    assert.deepStrictEqual(convert("a ; b"), ["<mi>a</mi><merror><mtext>;" +
+        "</mtext></merror><mi>b</mi>", [["misplaced-separator", 2, 3]]])
+    assert.deepStrictEqual(convert("a ;; b")[1],
+        [["misplaced-separator", 2, 4]])
+})
+
+test("matrix cells can be empty", () => {
+    let [mathml, diagnostics] = convert("[| a; ; b |]")
+    assert.match(mathml, new RegExp("<mtable><mtr><mtd><mi>a</mi></mtd>" +
+        "<mtd></mtd><mtd><mi>b</mi></mtd></mtr></mtable>"))
+    assert.deepStrictEqual(diagnostics, [])
+})
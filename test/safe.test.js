@@ -0,0 +1,59 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { convertAsciiMath } = require("../lib")
+
+function convert(input, options) {
+    let { mathml, diagnostics } = convertAsciiMath(input, 
+        { safe: true, displayStyle: false, ...options })
+    return [mathml.replace(/^<math[^>]*>|<\/math>$/g, ""),
+        diagnostics.map(d => [d.code, d.start, d.end])]
+}
+
+function parens(body) {
+    return '<mrow><mo fence="true" form="prefix" stretchy="true">&#40;</mo>' +
+        body + '<mo fence="true" form="postfix" stretchy="true">&#41;</mo>' +
+        "</mrow>"
+}
+
+test("text is escaped in safe mode", () => {
+    assert.deepStrictEqual(convert('"<i>"'), ["<mtext>&#60;i&#62;</mtext>",
+        []])
+    assert.deepStrictEqual(convert('"<i>"', { safe: false }), 
+        ["<mtext><i></mtext>", []])
+})
+
+test("valid colors and classes are accepted", () => {
+    assert.deepStrictEqual(convert('color"#f00"(x)'), ['<mstyle mathcolor=' +
+        `"#f00">${parens("<mi>x</mi>")}</mstyle>`, []])
+    assert.deepStrictEqual(convert('color"rgb(1,2,3)"(x)')[1], [])
+    assert.deepStrictEqual(convert('class"a b"(x)')[1], [])
+})
+
+test("rejected attribute values are shown as errors", () => {
+    assert.deepStrictEqual(convert('color"javascript:x"(x)'), ["<merror>" +
+        "<mtext>javascript:x</mtext></merror>" + parens("<mi>x</mi>"),
+        [["invalid-attribute", 5, 19]]])
+    assert.deepStrictEqual(convert('class"><s"(x)'), ["<merror><mtext>" +
+        "&#62;&#60;s</mtext></merror>" + parens("<mi>x</mi>"),
+        [["invalid-attribute", 5, 10]]])
+})
+
+test("def and id are disabled by default", () => {
+    assert.deepStrictEqual(convert("def(a)(b) a")[1], 
+        [["disabled-command", 0, 3]])
+    assert.deepStrictEqual(convert('id"x"(y)')[1], 
+        [["disabled-command", 0, 2]])
+    assert.match(convert("def(a)(b) a")[0], /^<merror><mtext>def<\/mtext>/)
+})
+
+test("disabled commands can be given", () => {
+    assert.deepStrictEqual(convert('id"x"(y)', { disabledCommands: [] }), 
+        [`<mrow id="x">${parens("<mi>y</mi>")}</mrow>`, []])
+    assert.deepStrictEqual(convert("sqrt x", { safe: false,
+        disabledCommands: ["sqrt"] })[1], [["disabled-command", 0, 4]])
+})
+
+test("the preamble can use disabled commands", () => {
+    assert.deepStrictEqual(convert("R2", { preamble: "def(R2)(RR^2)" }), 
+        ["<msup><mo>&#x211D;</mo><mn>2</mn></msup>", []])
+})
@@ -0,0 +1,28 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, parseAsciiMath } = require("../lib")
+
+function values(input, options) {
+    return parseAsciiMath(input, undefined, options).items.map(node =>
+        node.value || node.type)
+}
+
+test("the longest matching symbol is chosen", () => {
+    assert.deepStrictEqual(values("<=>"), ["⇔"])
+    assert.deepStrictEqual(values("<="), ["≤"])
+    assert.deepStrictEqual(values("oint"), ["∮"])
+    assert.deepStrictEqual(values("ooint"), ["∞", "∫"])
+    assert.deepStrictEqual(values("o+x"), ["⊕", "x"])
+})
+
+test("scanning falls back to shorter symbols", () => {
+    let symbols = { "<=x": { kind: "identifier" } }
+    assert.deepStrictEqual(values("x <= y", { symbols }), ["x", "≤", "y"])
+    assert.deepStrictEqual(values("<=x", { symbols }), ["<=x"])
+})
+
+test("symbols defined in the middle of input are recognized", () => {
+    assert.strictEqual(asciiToMathML("def(R2)(RR^2) R2"), 
+        asciiToMathML("RR^2"))
+    assert.deepStrictEqual(values("xx R2"), ["×", "R", "2"])
+})
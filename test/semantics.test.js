@@ -0,0 +1,28 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML } = require("../lib")
+
+test("source is kept in an annotation", () => {
+    assert.strictEqual(asciiToMathML("x^2", { semantics: true,
+        displayStyle: false }),
+        '<math display="block"><semantics><mrow><msup><mi>x</mi>' +
+        "<mn>2</mn></msup></mrow><annotation encoding=" +
+        '"application/x-asciimath">x^2</annotation></semantics></math>')
+})
+
+test("special characters in the source are escaped", () => {
+    assert.match(asciiToMathML("a<b", { semantics: true }),
+        /<annotation encoding="application\/x-asciimath">a&#60;b</)
+})
+
+test("LaTeX annotation follows the AsciiMath one", () => {
+    assert.match(asciiToMathML("x^2", { latexAnnotation: true }),
+        new RegExp("<mstyle displaystyle=\"true\">.*</mstyle>" +
+            "<annotation encoding=\"application/x-asciimath\">x\\^2" +
+            "</annotation><annotation encoding=\"application/x-tex\">" +
+            "x\\^\\{2\\}</annotation></semantics></math>$"))
+})
+
+test("no semantics element is added by default", () => {
+    assert.doesNotMatch(asciiToMathML("x^2"), /semantics|annotation/)
+})
@@ -0,0 +1,35 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, asciiToSpeech, parseAsciiMath, treeToSpeech } = 
+    require("../lib")
+
+test("equations are read in English", () => {
+    let cases = [
+        ["x^2", "x squared"],
+        ["a/b", "a over b"],
+        ["sqrt x", "the square root of x"],
+        ["sum_(i=1)^n i^3", "the sum from i equals 1 to n of i cubed"],
+        ["x_1 + y_2", "x sub 1 plus y sub 2"],
+        ["f(x) = sin x", "f of x equals sine of x"],
+        ["lim_(x->0) f(x)", "the limit as x goes to 0 of f of x"],
+        ["alpha >= beta", "alpha is greater than or equal to beta"],
+        ["hat x", "x hat"],
+        ["bb x", "bold x"],
+        ["[| a;b ;; c;d |]",
+            "the 2 by 2 matrix; row 1: a, b; row 2: c, d; end matrix"]
+    ]
+    for (let [input, expected] of cases)
+        assert.strictEqual(asciiToSpeech(input), expected, input)
+})
+
+test("speech can be generated from a syntax tree", () => {
+    assert.strictEqual(treeToSpeech(parseAsciiMath("a/b")), "a over b")
+})
+
+test("speech is put in the requested attribute", () => {
+    assert.match(asciiToMathML("x^2", { speech: "aria-label" }),
+        /^<math display="block" aria-label="x squared">/)
+    assert.match(asciiToMathML("x^2", { speech: "alttext", inline: true }),
+        /^<math display="inline" alttext="x squared">/)
+    assert.doesNotMatch(asciiToMathML("x^2"), /aria-label|alttext/)
+})
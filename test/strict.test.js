@@ -0,0 +1,49 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, parseAsciiMath } = require("../lib")
+
+const options = { strictSpec: true }
+const open = '<mo fence="true" form="prefix" stretchy="true">'
+const close = '<mo fence="true" form="postfix" stretchy="true">'
+
+function mathml(input, opts = options) {
+    return asciiToMathML(input, true, false, false, opts)
+        .replace(/^<math[^>]*><mstyle[^>]*>|<\/mstyle><\/math>$/g, "")
+}
+
+test("matrices are recognized from nested brackets", () => {
+    assert.strictEqual(mathml("[[a,b],[c,d]]"), `<mrow>${open}&#91;</mo>` +
+        "<mtable><mtr><mtd><mi>a</mi></mtd><mtd><mi>b</mi></mtd></mtr>" +
+        "<mtr><mtd><mi>c</mi></mtd><mtd><mi>d</mi></mtd></mtr></mtable>" +
+        `${close}&#93;</mo></mrow>`)
+    assert.doesNotMatch(mathml("[[a,b],[c]]"), /<mtable>/)
+})
+
+test("braces are visible and brackets around arguments hidden", () => {
+    assert.strictEqual(mathml("{x}"),
+        `<mrow>${open}&#123;</mo><mi>x</mi>${close}&#125;</mo></mrow>`)
+    assert.strictEqual(mathml("{:x:}"), "<mrow><mi>x</mi></mrow>")
+    assert.strictEqual(mathml("sqrt(x)"),
+        "<msqrt><mrow><mi>x</mi></mrow></msqrt>")
+})
+
+test("spec symbols replace our matrix symbols", () => {
+    assert.match(mathml("a mlt b"), /<mo>&#x226A;<\/mo>/)
+    assert.match(mathml("<<a>>"), /<mo[^>]*>&#x2329;<\/mo>/)
+    assert.doesNotMatch(mathml("[| a |]"), /<mtable>/)
+})
+
+test("color values can be given in parentheses", () => {
+    assert.match(mathml("color(red)(x)"), /<mstyle mathcolor="red">/)
+})
+
+test("root, overset, and underset take arguments in spec order", () => {
+    let [root, over, under] =
+        parseAsciiMath("root(3)(x) overset(a)(b) underset(c)(d)", [],
+            options).items
+    assert.strictEqual(root.radicand.body.items[0].value, "x")
+    assert.strictEqual(root.index.body.items[0].value, "3")
+    assert.strictEqual(over.base.body.items[0].value, "b")
+    assert.strictEqual(under.under.body.items[0].value, "c")
+    assert.strictEqual(mathml("root(3)(x)"), mathml("root{x}{3}", {}))
+})
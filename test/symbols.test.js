@@ -0,0 +1,47 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, createConverter } = require("../lib")
+
+const symbols = {
+    RR: { kind: "identifier", output: "ℝ" },
+    sgn: { kind: "function" },
+    sum: { kind: "identifier", output: "S" },
+    "=>": { kind: "alias", of: "->" },
+    avg: { kind: "accent", position: "over", mark: "‾" },
+    ratio: { kind: "binary", combine: "fraction" }
+}
+
+function mathml(input, opts = { symbols }) {
+    return asciiToMathML(input, true, false, false, opts)
+        .replace(/^<math[^>]*><mstyle[^>]*>|<\/mstyle><\/math>$/g, "")
+}
+
+test("custom symbols are added to the table", () => {
+    assert.strictEqual(mathml("RR"), "<mi>&#x211D;</mi>")
+    assert.strictEqual(mathml("sgn x"), "<mrow><mo>sgn</mo><mi>x</mi></mrow>")
+    assert.strictEqual(mathml("avg x"),
+        "<mover><mi>x</mi><mo>&#x203E;</mo></mover>")
+    assert.strictEqual(mathml("ratio a b"), mathml("frac a b", {}))
+})
+
+test("custom symbols override built-in ones", () => {
+    assert.strictEqual(mathml("sum"), "<mi>S</mi>")
+    assert.strictEqual(mathml("a => b"), mathml("a -> b", {}))
+    assert.notStrictEqual(mathml("sum", {}), "<mi>S</mi>")
+})
+
+test("invalid definitions throw", () => {
+    assert.throws(() => mathml("x", { symbols: { q: { kind: "alias",
+        of: "nope" } } }), /Cannot alias unknown symbol "nope"/)
+    assert.throws(() => mathml("x", { symbols: { q: { kind: "font",
+        font: "bold", table: ["a"] } } }), /must contain 52 characters/)
+})
+
+test("converters remember their options", () => {
+    let converter = createConverter({ symbols })
+    assert.strictEqual(converter.toMathML("RR", { inline: true }),
+        asciiToMathML("RR", true, false, false, { symbols }))
+    assert.strictEqual(converter.toLaTeX("RR"), "\\mathbb{R}")
+    assert.strictEqual(converter.parse("RR").items[0].type, "identifier")
+    assert.deepStrictEqual(converter.convert("RR").diagnostics, [])
+})
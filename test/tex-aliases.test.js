@@ -0,0 +1,34 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, asciiToLaTeX, convertAsciiMath } = require("../lib")
+
+const options = { texAliases: true }
+
+function mathml(input, opts = options) {
+    return asciiToMathML(input, true, false, false, opts)
+}
+
+test("TeX commands are recognized only with the option", () => {
+    assert.strictEqual(mathml("\\alpha \\le \\frac{a}{b}"),
+        mathml("alpha <= frac{a}{b}", {}))
+    assert.notStrictEqual(mathml("\\le", {}), mathml("<=", {}))
+})
+
+test("escaped braces are visible", () => {
+    assert.match(mathml("\\{ x \\}"),
+        /<mo[^>]*>&#123;<\/mo><mi>x<\/mi><mo[^>]*>&#125;/)
+})
+
+test("unknown commands are reported", () => {
+    let res = convertAsciiMath("\\foo + x", false, false, false, options)
+    assert.match(res.mathml, /<merror>/)
+    assert.deepStrictEqual(res.diagnostics.map(d => [d.code, d.start, d.end]),
+        [["unknown-command", 0, 4]])
+})
+
+test("LaTeX output converts hex colors and enclose notations", () => {
+    assert.strictEqual(asciiToLaTeX('color "#f00" x'),
+        "{\\color[HTML]{FF0000}x}")
+    assert.strictEqual(asciiToLaTeX('color "red" x'), "{\\color{red}x}")
+    assert.strictEqual(asciiToLaTeX("cancel x"), "\\cancel{x}")
+})
@@ -0,0 +1,38 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToMathML, convertAsciiMath, mathMLToAscii } = require("../lib")
+
+function same(input, ascii) {
+    assert.strictEqual(asciiToMathML(input), asciiToMathML(ascii), input)
+}
+
+test("characters of symbols work like the symbols", () => {
+    same("α ≤ ∑ x", "alpha <= sum x")
+    same("∑_(i=1)^n i", "sum_(i=1)^n i")
+    same("a × b", "a xx b")
+})
+
+test("superscript and subscript characters become scripts", () => {
+    same("xᵢ²", "x_i^2")
+    same("x²³", "x^23")
+    same("y₁ + x⁺", "y_1 + x^+")
+})
+
+test("other characters are classified by category", () => {
+    let { mathml, diagnostics } = convertAsciiMath("ж ٣ ⨁", { 
+        displayStyle: false })
+    assert.strictEqual(mathml, '<math display="block"><mi>&#x0436;</mi>' +
+        '<mn>٣</mn><mo form="prefix" largeop="true" movablelimits="true">' +
+        "&#x2A01;</mo></math>")
+    assert.deepStrictEqual(diagnostics, [])
+})
+
+test("n-ary operators get limits", () => {
+    assert.match(asciiToMathML("⨁_i x"), /^<math[^>]*><mstyle[^>]*><munder>/)
+})
+
+test("imported MathML keeps the characters", () => {
+    assert.strictEqual(mathMLToAscii("<math><mi>ж</mi><mo>⨁</mo></math>"),
+        "ж ⨁")
+    assert.strictEqual(mathMLToAscii("<math><mi>²</mi></math>"), '"²"')
+})
@@ -0,0 +1,56 @@
+const { test } = require("node:test")
+const assert = require("node:assert")
+const { asciiToUnicode, parseAsciiMath, treeToUnicode } = require("../lib")
+
+function check(cases) {
+    for (let [input, expected] of cases)
+        assert.strictEqual(asciiToUnicode(input), expected, input)
+}
+
+test("scripts use Unicode superscripts and subscripts", () => check([
+    ["x^2", "x²"],
+    ["x_1", "x₁"],
+    ["x^(n+1)", "xⁿ⁺¹"],
+    ["x^(-1)", "x⁻¹"],
+    ["sum_(i=1)^n x_i^2", "∑ᵢ₌₁ⁿ xᵢ²"]
+]))
+
+test("scripts without Unicode form fall back to brackets", () => check([
+    ["x^(pi/2)", "x^(π/2)"]
+]))
+
+test("argument parentheses are dropped around atoms", () => check([
+    ["sqrt x", "√x"],
+    ["sqrt(x)", "√x"],
+    ["sqrt(x+y)", "√(x + y)"],
+    ["root(x)(3)", "∛x"],
+    ["frac(a+b)(c)", "(a + b)/c"],
+    ["(a+b)^2", "(a + b)²"]
+]))
+
+test("fonts use mathematical alphanumerics", () => check([
+    ["bb x", "𝐱"],
+    ["bb(ab)", "𝐚𝐛"],
+    ["bbb R", "ℝ"],
+    ["cc A", "𝒜"],
+    ["fr g", "𝔤"],
+    ["sf a", "𝖺"],
+    ["tt a", "𝚊"]
+]))
+
+test("custom fonts use their character table", () => {
+    let table = [..."ABCDEFGHIJKLMNOPQRSTUVWXYZ".repeat(2)]
+    let symbols = { up: { kind: "font", font: "bold", table } }
+    assert.strictEqual(asciiToUnicode("up(ab)", { symbols }), "AB")
+})
+
+test("accents, brackets, and symbols", () => check([
+    ["hat x", "x̂"],
+    ["abs(x)", "|x|"],
+    ["alpha + beta", "α + β"],
+    ["text(hi)", "hi"]
+]))
+
+test("Unicode can be generated from a syntax tree", () => {
+    assert.strictEqual(treeToUnicode(parseAsciiMath("a/b")), "a/b")
+})